@@ -1,3 +1,4 @@
+import path from "node:path";
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
@@ -5,6 +6,16 @@ const nextConfig: NextConfig = {
   output: 'standalone',
   // Help Next.js trace files correctly in monorepo/multi-lockfile workspaces
   outputFileTracingRoot: process.cwd(),
+  // Webhook routes run the workflow engine from the repository's src/core
+  experimental: {
+    externalDir: true,
+  },
+  // Resolve the engine's dependencies (zod) from this app's node_modules,
+  // so the build does not need the root project installed
+  webpack: (config) => {
+    config.resolve.modules = [...(config.resolve.modules ?? ['node_modules']), path.join(process.cwd(), 'node_modules')];
+    return config;
+  },
   
   // Optimize for production
   poweredByHeader: false,
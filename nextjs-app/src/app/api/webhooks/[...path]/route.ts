@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getWebhookRouter, WEBHOOK_BASE_PATH } from '@/lib/webhooks';
+
+// Workflows run in the Node.js runtime and must never be cached
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function handler(request: Request) {
+  try {
+    const router = await getWebhookRouter();
+    return await router.handleFetch(request, WEBHOOK_BASE_PATH);
+  } catch (error) {
+    console.error('Webhook request failed:', error);
+
+    return NextResponse.json({ error: 'Webhook request failed' }, { status: 500 });
+  }
+}
+
+export { handler as GET, handler as POST, handler as PUT, handler as PATCH, handler as DELETE };
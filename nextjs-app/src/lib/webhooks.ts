@@ -0,0 +1,70 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { CredentialVault } from '@core/credentials/CredentialVault';
+import { WebhookRouter } from '@core/engine/WebhookRouter';
+import { WorkflowSerializer } from '@core/utils/WorkflowSerializer';
+
+// Base path of the catch-all webhook route (src/app/api/webhooks/[...path]/route.ts)
+export const WEBHOOK_BASE_PATH = '/api/webhooks';
+
+// Keep a single router across hot reloads in development
+const globalForWebhooks = globalThis as typeof globalThis & {
+  webhookRouter?: Promise<WebhookRouter>;
+};
+
+/**
+ * Router for all webhook-trigger nodes of the workflows in WORKFLOWS_DIR
+ * (default ./workflows, JSON files exported from the editor). Workflows are
+ * loaded once on the first request; restart the server to pick up changes.
+ */
+export function getWebhookRouter(): Promise<WebhookRouter> {
+  if (!globalForWebhooks.webhookRouter) {
+    globalForWebhooks.webhookRouter = createWebhookRouter().catch((error) => {
+      globalForWebhooks.webhookRouter = undefined;
+      throw error;
+    });
+  }
+  return globalForWebhooks.webhookRouter;
+}
+
+async function createWebhookRouter(): Promise<WebhookRouter> {
+  const router = new WebhookRouter({
+    responseTimeout: Number(process.env.WEBHOOK_RESPONSE_TIMEOUT) || undefined,
+    onRunFinished: (run, outcome) => {
+      const error = outcome.error ?? outcome.result?.error;
+      if (error) {
+        console.error(`Webhook run of workflow ${run.workflowId} (${run.nodeId}) failed:`, error.message);
+      }
+    },
+  });
+
+  // Credentials referenced by webhook nodes (credentialId) are read from the encrypted vault
+  const credentials =
+    process.env.CREDENTIALS_PATH && process.env.CREDENTIALS_KEYFILE
+      ? CredentialVault.local(process.env.CREDENTIALS_PATH, process.env.CREDENTIALS_KEYFILE, fs)
+      : undefined;
+
+  const directory = process.env.WORKFLOWS_DIR || path.join(process.cwd(), 'workflows');
+  let files: string[] = [];
+  try {
+    files = (await fs.readdir(directory)).filter((file) => file.endsWith('.json'));
+  } catch {
+    console.warn(`Workflow directory ${directory} not found, no webhooks registered`);
+  }
+
+  for (const file of files) {
+    try {
+      const workflow = WorkflowSerializer.fromJSONString(await fs.readFile(path.join(directory, file), 'utf8'));
+      const nodeIds = router.register(workflow, {
+        credentials,
+        environment: process.env.WORKFLOW_ENVIRONMENT || undefined,
+      });
+      if (nodeIds.length > 0) {
+        console.log(`Registered ${nodeIds.length} webhook(s) from ${file}`);
+      }
+    } catch (error) {
+      console.error(`Failed to register webhooks from ${file}:`, error);
+    }
+  }
+  return router;
+}
@@ -1,5 +1,5 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { WorkflowExecutor } from './components/WorkflowExecutor';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { WorkflowExecutor, type WorkflowExecutorHandle } from './components/WorkflowExecutor';
 import { WorkflowSerializer } from './core/utils/WorkflowSerializer';
 import type { WorkflowJson } from './components/WorkflowCanvas';
 import { Upload, AlertCircle, Copy, Check, Send } from 'lucide-react';
@@ -58,6 +58,7 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   const [copiedToClipboard, setCopiedToClipboard] = useState(false);
   const [chatMessage, setChatMessage] = useState<string>('');
+  const executorRef = useRef<WorkflowExecutorHandle>(null);
 
   // 加载示例工作流
   const loadExampleWorkflow = useCallback((workflowId: string) => {
@@ -153,8 +154,12 @@ function App() {
     e.preventDefault();
     if (!chatMessage.trim()) return;
     
-    // TODO: 处理聊天消息
-    console.log('Chat message:', chatMessage);
+    // 以聊天消息触发工作流的聊天触发节点
+    if (!executorRef.current?.sendChatMessage(chatMessage.trim())) {
+      setError('当前工作流没有聊天触发节点，或正在运行中');
+      return;
+    }
+    setError(null);
     setChatMessage('');
   }, [chatMessage]);
 
@@ -186,7 +191,9 @@ function App() {
         {workflowData && (
           <div className="workflow-container">
             <WorkflowExecutor
+              ref={executorRef}
               workflowData={workflowData}
+              onWorkflowChange={setWorkflowData}
               showControls={false}
               showMiniMap={false}
               singleRow={true}
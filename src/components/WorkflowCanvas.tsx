@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo, useEffect } from 'react';
+import React, { useCallback, useMemo, useEffect, useState } from 'react';
 import ReactFlow, {
   Background,
   Controls,
@@ -15,10 +15,16 @@ import type {
   EdgeTypes
 } from 'reactflow';
 import 'reactflow/dist/style.css';
+import { ChevronLeft, ChevronRight, Pause, Play, SkipBack } from 'lucide-react';
 import { WorkflowNode } from './WorkflowNode';
 import type { WorkflowNodeData } from './WorkflowNode';
 import { WorkflowEdge } from './WorkflowEdge';
-import type { SerializedWorkflow } from '../core/utils/WorkflowSerializer';
+import type { WorkflowEdgeData } from './WorkflowEdge';
+import { WorkflowSerializer, type SerializedWorkflow } from '../core/utils/WorkflowSerializer';
+import { ERROR_BRANCH_INDEX } from '../core/abstract/BaseNode';
+import type { ExecutionTrace } from '../core/engine/ExecutionTrace';
+import { WorkflowGraphUtils } from '../core/engine/WorkflowGraph';
+import { NodePortUtils } from '../core/engine/NodePorts';
 import './WorkflowCanvas.css';
 
 // 重新导出类型以保持兼容性
@@ -28,7 +34,13 @@ export type WorkflowJson = SerializedWorkflow;
 export interface WorkflowCanvasProps {
   workflowData: WorkflowJson;
   onNodeClick?: (nodeId: string, nodeData: WorkflowNodeData) => void;
-  nodeStatuses?: Record<string, 'pending' | 'running' | 'completed' | 'error'>;
+  nodeStatuses?: Record<string, 'pending' | 'running' | 'retrying' | 'completed' | 'error'>;
+  // 执行轨迹：提供时进入回放模式，节点与连接状态取自轨迹的当前步骤
+  trace?: ExecutionTrace;
+  // 调试：设置了断点的节点、调试器当前停在其前的节点，以及切换断点的回调
+  breakpoints?: string[];
+  haltedNodeId?: string | null;
+  onToggleBreakpoint?: (nodeId: string) => void;
   className?: string;
   // UI 控制
   singleRow?: boolean;        // 单行自动布局
@@ -36,6 +48,11 @@ export interface WorkflowCanvasProps {
   showFlowControls?: boolean; // 是否显示 ReactFlow 的控件
 }
 
+// 回放自动播放的步间隔（毫秒）
+const REPLAY_INTERVAL = 800;
+
+type CanvasNodeStatus = NonNullable<WorkflowCanvasProps['nodeStatuses']>[string];
+
 // 自定义节点类型
 const nodeTypes: NodeTypes = {
   workflowNode: WorkflowNode
@@ -49,22 +66,81 @@ const edgeTypes: EdgeTypes = {
 export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
   workflowData,
   onNodeClick,
-  nodeStatuses = {},
+  nodeStatuses: liveNodeStatuses = {},
+  trace,
+  breakpoints,
+  haltedNodeId,
+  onToggleBreakpoint,
   className,
   singleRow = true,
   showMiniMap = false,
   showFlowControls = false
 }) => {
 
+  // 回放进度：已展示的步骤数，与轨迹绑定，轨迹变化后从头开始
+  const [replay, setReplay] = useState<{ trace?: ExecutionTrace; step: number; playing: boolean }>({ step: 0, playing: false });
+  const replayStep = trace && replay.trace === trace ? replay.step : 0;
+  const replayPlaying = trace !== undefined && replay.trace === trace && replay.playing;
+  const totalSteps = trace?.steps.length ?? 0;
+
+  const setReplayStep = useCallback((step: number, playing = false) => {
+    setReplay({ trace, step: Math.max(0, Math.min(step, totalSteps)), playing });
+  }, [trace, totalSteps]);
+
+  // 自动播放：逐步前进直到最后一步
+  useEffect(() => {
+    if (!replayPlaying) return;
+    const timer = setTimeout(() => {
+      setReplay(prev => ({
+        ...prev,
+        step: prev.step + 1,
+        playing: prev.step + 1 < totalSteps
+      }));
+    }, REPLAY_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [replayPlaying, replayStep, totalSteps]);
+
+  // 回放模式下由轨迹推导节点状态与连接状态
+  const { nodeStatuses, edgeStatuses, currentStep } = useMemo(() => {
+    if (!trace) {
+      return { nodeStatuses: liveNodeStatuses, edgeStatuses: undefined, currentStep: undefined };
+    }
+    const statuses: Record<string, CanvasNodeStatus> = {};
+    const edgeStatusMap: Record<string, NonNullable<WorkflowEdgeData['status']>> = {};
+    const shown = trace.steps.slice(0, replayStep);
+    shown.forEach((step, index) => {
+      statuses[step.nodeId] = step.status;
+      const isCurrent = index === shown.length - 1;
+      step.connectionIds.forEach(connectionId => {
+        edgeStatusMap[connectionId] = isCurrent ? 'active' : 'completed';
+      });
+    });
+    return { nodeStatuses: statuses, edgeStatuses: edgeStatusMap, currentStep: shown[shown.length - 1] };
+  }, [trace, replayStep, liveNodeStatuses]);
+
+  // 按节点端口模式检查连接：源节点输出无法满足目标节点必需输入的连接标为警告
+  const incompatibleConnections = useMemo(() => {
+    try {
+      return NodePortUtils.findIncompatibleConnections(WorkflowSerializer.fromJSON(workflowData));
+    } catch (error) {
+      console.warn('Failed to check connection compatibility:', error);
+      return new Map<string, string[]>();
+    }
+  }, [workflowData]);
+
   // 将JSON数据转换为ReactFlow格式
   const { initialNodes, initialEdges } = useMemo(() => {
-    // 1) 构建图结构
+    // 1) 构建图结构（回边不参与布局，单独绕行绘制）
     const nodeIds = workflowData.nodes.map(n => n.config.id);
+    const backEdgeIds = new Set(
+      WorkflowGraphUtils.findBackEdges(nodeIds, workflowData.connections).map(({ connection }) => connection.id)
+    );
     const inDegree = new Map<string, number>();
     const outMap = new Map<string, { targetId: string; branchIndex?: number }[]>();
     nodeIds.forEach(id => { inDegree.set(id, 0); outMap.set(id, []); });
     for (const c of workflowData.connections) {
       if (!nodeIds.includes(c.sourceNodeId) || !nodeIds.includes(c.targetNodeId)) continue;
+      if (backEdgeIds.has(c.id)) continue;
       outMap.get(c.sourceNodeId)?.push({ targetId: c.targetNodeId, branchIndex: c.branchIndex });
       inDegree.set(c.targetNodeId, (inDegree.get(c.targetNodeId) || 0) + 1);
     }
@@ -131,6 +207,7 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
           settings: nodeData.settings,
           originalSettings: nodeData.originalSettings,
           status: nodeStatuses[nodeData.config.id] || 'pending',
+          pinned: nodeData.pinnedData !== undefined,
           // 为 Agent 节点添加工具信息
           ...(nodeData.config.type === 'agent' && 'tools' in nodeData ? {
             tools: (nodeData as { tools: unknown[] }).tools
@@ -152,31 +229,53 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
     const edges: Edge[] = workflowData.connections.map((connection) => {
       const sourceType = nodeTypeById.get(connection.sourceNodeId);
       let label: string | undefined;
+      const isErrorBranch = connection.branchIndex === ERROR_BRANCH_INDEX;
+      const problems = incompatibleConnections.get(connection.id);
+      const stroke = isErrorBranch ? '#EF4444' : problems ? '#F59E0B' : '#6B7280';
       if (typeof connection.branchIndex === 'number') {
         const bi = connection.branchIndex ?? 0;
-        if (sourceType === 'condition') {
+        if (isErrorBranch) {
+          label = 'error';
+        } else if (sourceType === 'condition') {
           label = bi === 0 ? 'false' : bi === 1 ? 'true' : `B${bi}`;
+        } else if (sourceType === 'loop') {
+          label = bi === 0 ? 'body' : bi === 1 ? 'done' : `B${bi}`;
         } else {
           label = `B${bi}`;
         }
       }
 
+      // 回边标注迭代上限
+      const isBackEdge = backEdgeIds.has(connection.id);
+      if (isBackEdge) {
+        const maxIterations = connection.maxIterations ?? workflowData.config.maxIterations;
+        const loopLabel = maxIterations !== undefined ? `↻ ≤${maxIterations}` : '↻';
+        label = label ? `${label} ${loopLabel}` : loopLabel;
+      }
+      if (problems) {
+        label = label ? `⚠ ${label}` : '⚠';
+      }
+
       return {
         id: connection.id,
         source: connection.sourceNodeId,
         target: connection.targetNodeId,
         type: 'workflowEdge',
-        data: label ? { label } : undefined,
+        data: label || isErrorBranch
+          ? { label, errorBranch: isErrorBranch, backEdge: isBackEdge, problems }
+          : undefined,
         animated: false,
         markerEnd: {
           type: MarkerType.ArrowClosed,
           width: 20,
           height: 20,
-          color: '#6B7280'
+          color: stroke
         },
         style: {
-          stroke: '#6B7280',
-          strokeWidth: 2
+          stroke,
+          strokeWidth: 2,
+          // 错误分支用虚线区分
+          ...(isErrorBranch ? { strokeDasharray: '6 4' } : {})
         }
       } as Edge;
     });
@@ -185,12 +284,18 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
     const allEdges = edges;
 
     return { initialNodes: allNodes, initialEdges: allEdges };
-  }, [workflowData, nodeStatuses, singleRow]);
+  }, [workflowData, nodeStatuses, singleRow, incompatibleConnections]);
 
   // 初始化节点和边状态
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
-  const [edges, , onEdgesChange] = useEdgesState(initialEdges);
+  const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
+
 
+  // 带固定输出的节点（固定/取消固定后同步到画布）
+  const pinnedNodeIds = useMemo(
+    () => new Set(workflowData.nodes.filter(n => n.pinnedData !== undefined).map(n => n.config.id)),
+    [workflowData]
+  );
 
   // 同步节点状态更新到画布
   useEffect(() => {
@@ -199,11 +304,30 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
         ...node,
         data: {
           ...(node.data as WorkflowNodeData),
-          status: nodeStatuses[node.id] || 'pending'
+          status: nodeStatuses[node.id] || 'pending',
+          breakpoint: breakpoints?.includes(node.id),
+          halted: haltedNodeId === node.id,
+          onToggleBreakpoint,
+          pinned: pinnedNodeIds.has(node.id)
+        },
+        // 回放时选中当前步骤的节点以高亮
+        selected: currentStep ? node.id === currentStep.nodeId : node.selected
+      }))
+    );
+  }, [nodeStatuses, currentStep, breakpoints, haltedNodeId, onToggleBreakpoint, pinnedNodeIds, setNodes]);
+
+  // 同步回放中的连接状态
+  useEffect(() => {
+    setEdges(prev =>
+      prev.map(edge => ({
+        ...edge,
+        data: {
+          ...(edge.data as WorkflowEdgeData | undefined),
+          status: edgeStatuses?.[edge.id]
         }
       }))
     );
-  }, [nodeStatuses, setNodes]);
+  }, [edgeStatuses, setEdges]);
 
   // 节点点击处理
   const handleNodeClick = useCallback((_: React.MouseEvent, node: Node) => {
@@ -224,6 +348,59 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
         )}
       </div>
 
+      {trace && (
+        <div className="workflow-replay-bar">
+          <div className="replay-controls">
+            <button className="replay-btn" onClick={() => setReplayStep(0)} disabled={replayStep === 0} title="回到开始">
+              <SkipBack size={14} />
+            </button>
+            <button className="replay-btn" onClick={() => setReplayStep(replayStep - 1)} disabled={replayStep === 0} title="上一步">
+              <ChevronLeft size={14} />
+            </button>
+            <button
+              className="replay-btn"
+              onClick={() => replayPlaying
+                ? setReplayStep(replayStep)
+                : setReplayStep(replayStep >= totalSteps ? 0 : replayStep, true)}
+              disabled={totalSteps === 0}
+              title={replayPlaying ? '暂停回放' : '播放'}
+            >
+              {replayPlaying ? <Pause size={14} /> : <Play size={14} />}
+            </button>
+            <button className="replay-btn" onClick={() => setReplayStep(replayStep + 1)} disabled={replayStep >= totalSteps} title="下一步">
+              <ChevronRight size={14} />
+            </button>
+            <span className="replay-progress">步骤 {replayStep} / {totalSteps}</span>
+          </div>
+
+          {currentStep && (
+            <div className="replay-step">
+              <div className="replay-step-header">
+                <span className={`replay-step-status status-${currentStep.status}`}>{currentStep.status}</span>
+                <span className="replay-step-node">
+                  {workflowData.nodes.find(n => n.config.id === currentStep.nodeId)?.config.name || currentStep.nodeId}
+                </span>
+                {currentStep.branchIndex !== undefined && (
+                  <span className="replay-step-meta">分支 {currentStep.branchIndex === ERROR_BRANCH_INDEX ? 'error' : currentStep.branchIndex}</span>
+                )}
+                <span className="replay-step-meta">
+                  {currentStep.restored ? '来自检查点' : `${currentStep.endTime - currentStep.startTime}ms`}
+                </span>
+              </div>
+              {currentStep.error && <div className="replay-step-error">{currentStep.error}</div>}
+              {([['输入', currentStep.inputs], ['设置', currentStep.settings], ['输出', currentStep.output]] as const)
+                .filter(([, value]) => value !== undefined)
+                .map(([title, value]) => (
+                  <details key={title} className="replay-step-section">
+                    <summary>{title}</summary>
+                    <pre>{JSON.stringify(value, null, 2)}</pre>
+                  </details>
+                ))}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="workflow-canvas-content">
         <ReactFlow
           nodes={nodes}
@@ -269,9 +446,13 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
                   const nodeData = node.data as WorkflowNodeData;
                   const colors = {
                     'timer-trigger': '#10B981',
+                    'webhook-trigger': '#10B981',
+                    'manual-trigger': '#10B981',
+                    'chat-trigger': '#10B981',
                     'http-request': '#3B82F6',
                     'code': '#8B5CF6',
                     'condition': '#F59E0B',
+                    'loop': '#0EA5E9',
                     'agent': '#EF4444'
                   };
                   return colors[nodeData.type as keyof typeof colors] || '#6B7280';
@@ -6,6 +6,29 @@ export interface WorkflowEdgeData {
   label?: string;
   status?: 'pending' | 'active' | 'completed' | 'error';
   animated?: boolean;
+  errorBranch?: boolean; // 错误分支连接
+  backEdge?: boolean;    // 回边：从节点下方绕行回到上游节点
+  problems?: string[];   // 端口不兼容：源节点输出无法满足目标节点必需的输入
+}
+
+// 回边绕行时离开/进入节点的水平距离与低于两端节点的垂直距离
+const BACK_EDGE_OFFSET_X = 40;
+const BACK_EDGE_OFFSET_Y = 110;
+
+// 回边路径：源节点右侧 → 下方 → 目标节点左侧，避免与正向连接重叠
+function getBackEdgePath(sourceX: number, sourceY: number, targetX: number, targetY: number): [string, number, number] {
+  const bottomY = Math.max(sourceY, targetY) + BACK_EDGE_OFFSET_Y;
+  const rightX = sourceX + BACK_EDGE_OFFSET_X;
+  const leftX = targetX - BACK_EDGE_OFFSET_X;
+  const path = [
+    `M ${sourceX},${sourceY}`,
+    `L ${rightX},${sourceY}`,
+    `L ${rightX},${bottomY}`,
+    `L ${leftX},${bottomY}`,
+    `L ${leftX},${targetY}`,
+    `L ${targetX},${targetY}`
+  ].join(' ');
+  return [path, (rightX + leftX) / 2, bottomY];
 }
 
 export const WorkflowEdge: React.FC<EdgeProps<WorkflowEdgeData>> = ({
@@ -21,14 +44,16 @@ export const WorkflowEdge: React.FC<EdgeProps<WorkflowEdgeData>> = ({
   markerEnd,
   selected
 }) => {
-  const [edgePath, labelX, labelY] = getBezierPath({
-    sourceX,
-    sourceY,
-    sourcePosition,
-    targetX,
-    targetY,
-    targetPosition
-  });
+  const [edgePath, labelX, labelY] = data?.backEdge
+    ? getBackEdgePath(sourceX, sourceY, targetX, targetY)
+    : getBezierPath({
+        sourceX,
+        sourceY,
+        sourcePosition,
+        targetX,
+        targetY,
+        targetPosition
+      });
 
   // 根据状态确定边的样式
   const getEdgeStyle = () => {
@@ -77,7 +102,14 @@ export const WorkflowEdge: React.FC<EdgeProps<WorkflowEdgeData>> = ({
       <path
         id={id}
         style={getEdgeStyle()}
-        className={`react-flow__edge-path ${data?.animated ? 'animated' : ''}`}
+        className={[
+          'react-flow__edge-path',
+          data?.animated ? 'animated' : '',
+          data?.status ? `edge-status-${data.status}` : '',
+          data?.errorBranch ? 'edge-error-branch' : '',
+          data?.backEdge ? 'edge-back-edge' : '',
+          data?.problems ? 'edge-incompatible' : ''
+        ].filter(Boolean).join(' ')}
         d={edgePath}
         markerEnd={markerEnd}
       />
@@ -94,10 +126,11 @@ export const WorkflowEdge: React.FC<EdgeProps<WorkflowEdgeData>> = ({
               padding: '2px 6px',
               borderRadius: '4px',
               border: '1px solid #E5E7EB',
-              color: '#6B7280',
+              color: data.problems ? '#B45309' : '#6B7280',
               pointerEvents: 'all'
             }}
             className="nodrag nopan"
+            title={data.problems?.join('\n')}
           >
             {data.label}
           </div>
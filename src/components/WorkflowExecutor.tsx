@@ -1,15 +1,25 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { Play, Pause, Square, RotateCcw } from 'lucide-react';
+import React, { useState, useCallback, useRef, useMemo, useImperativeHandle } from 'react';
+import { Play, Pause, Square, RotateCcw, StepForward, History, Download, Upload, Bug, SkipForward, Pin, PinOff } from 'lucide-react';
 import { WorkflowCanvas, type WorkflowJson } from './WorkflowCanvas';
-import { NodeRegistry } from '../core/utils/WorkflowSerializer';
-import type { NodeExecutionContext, NodeExecutionResult } from '../core/abstract/BaseNode';
+import { WorkflowSerializer } from '../core/utils/WorkflowSerializer';
+import { WorkflowRunner, type WorkflowTrigger } from '../core/engine/WorkflowRunner';
+import type { ExecutionSnapshot } from '../core/engine/ExecutionSnapshot';
+import type { NodeItem } from '../core/engine/NodeItems';
+import type { ExecutionEventBus } from '../core/engine/ExecutionEvents';
+import { ExecutionLogger } from '../core/engine/ExecutionLogger';
+import { ExecutionTraceRecorder, ExecutionTraceUtils, type ExecutionTrace } from '../core/engine/ExecutionTrace';
+import { WorkflowIOUtils, WorkflowInputError } from '../core/engine/WorkflowIO';
+import type { WorkflowInputDefinition } from '../core/abstract/BaseWorkflow';
+import { LocalStorageStaticVariableStore, type StaticVariableStore } from '../core/engine/WorkflowVariables';
+import type { CredentialVault } from '../core/credentials/CredentialVault';
+import { CHAT_TRIGGER_FIELDS } from '../core/nodes/ChatTriggerNode';
 import './WorkflowExecutor.css';
 
 // 执行状态
 export type ExecutionStatus = 'idle' | 'running' | 'paused' | 'completed' | 'error';
 
 // 节点执行状态
-export type NodeExecutionStatus = 'pending' | 'running' | 'completed' | 'error';
+export type NodeExecutionStatus = 'pending' | 'running' | 'retrying' | 'completed' | 'error';
 
 // 执行结果
 export interface ExecutionResult {
@@ -19,10 +29,28 @@ export interface ExecutionResult {
   error?: string;
   startTime: number;
   endTime?: number;
+  // 结果为节点的固定输出
+  pinned?: boolean;
+  // 按分支分组的输出项（检查点中记录，仅在无法由 result 还原时存在），固定输出时一并保存
+  items?: Record<string, NodeItem[]>;
+}
+
+// 手动运行使用的触发节点及其表单字段
+interface TriggerForm {
+  nodeId: string;
+  type: 'manual-trigger' | 'chat-trigger';
+  fields: WorkflowInputDefinition[];
+}
+
+// 通过 ref 调用的执行器方法
+export interface WorkflowExecutorHandle {
+  // 以聊天消息触发运行；工作流没有聊天触发节点或正在运行时返回 false
+  sendChatMessage(message: string): boolean;
 }
 
 // 组件属性
 export interface WorkflowExecutorProps {
+  ref?: React.Ref<WorkflowExecutorHandle>;
   workflowData: WorkflowJson;
   onExecutionStart?: () => void;
   onExecutionComplete?: (results: ExecutionResult[]) => void;
@@ -34,8 +62,20 @@ export interface WorkflowExecutorProps {
   showMiniMap?: boolean;
   singleRow?: boolean;
   showExecutorToolbar?: boolean; // 是否显示执行按钮工具栏
+  // 外部事件总线：指标、持久化等可订阅本组件发起的每次运行
+  eventBus?: ExecutionEventBus;
+  // 工作流 JSON 被修改（如固定节点输出）时回调；未提供时不显示固定按钮
+  onWorkflowChange?: (workflowData: WorkflowJson) => void;
+  // 静态变量存储，默认保存在浏览器 localStorage
+  staticVariables?: StaticVariableStore;
+  // 凭证保险库：节点按凭证 id 引用；未提供时引用凭证的节点执行失败
+  credentials?: CredentialVault;
+  // 初始选择的环境名称，缺省为工作流的 defaultEnvironment
+  environment?: string;
 }
 
+const defaultStaticVariables = new LocalStorageStaticVariableStore();
+
 export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
   workflowData,
   onExecutionStart,
@@ -46,13 +86,48 @@ export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
   showControls = false,
   showMiniMap = false,
   singleRow = true,
-  showExecutorToolbar = false
+  showExecutorToolbar = false,
+  eventBus,
+  onWorkflowChange,
+  staticVariables = defaultStaticVariables,
+  credentials,
+  environment: initialEnvironment,
+  ref
 }) => {
   const [executionStatus, setExecutionStatus] = useState<ExecutionStatus>('idle');
   const [executionResults, setExecutionResults] = useState<ExecutionResult[]>([]);
   const [currentNodeId, setCurrentNodeId] = useState<string | null>(null);
   const [nodeStatuses, setNodeStatuses] = useState<Record<string, NodeExecutionStatus>>({});
   const executionAbortController = useRef<AbortController | null>(null);
+  const runnerRef = useRef<WorkflowRunner | null>(null);
+  // 失败运行的快照，用于从失败节点继续
+  const [failedSnapshot, setFailedSnapshot] = useState<ExecutionSnapshot | null>(null);
+  // 最近一次运行（或导入）的执行轨迹，重置后仍保留，可在画布上回放
+  const [lastTrace, setLastTrace] = useState<ExecutionTrace | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  const traceFileInput = useRef<HTMLInputElement | null>(null);
+  // 调试：断点、当前停下的节点及可编辑的输入
+  const [breakpoints, setBreakpoints] = useState<string[]>([]);
+  const breakpointsRef = useRef<string[]>([]);
+  const [halted, setHalted] = useState<{ nodeId: string; settings: Record<string, unknown>; itemCount: number } | null>(null);
+  const [inputDraft, setInputDraft] = useState('');
+  const [inputDraftError, setInputDraftError] = useState<string | null>(null);
+  // 运行参数：声明了输入的工作流在手动运行前填写；从失败节点继续时沿用上一次的参数
+  const [inputPrompt, setInputPrompt] = useState<{ stepping: boolean } | null>(null);
+  const [inputValues, setInputValues] = useState<Record<string, unknown>>({});
+  const [inputErrors, setInputErrors] = useState<string[]>([]);
+  const lastInputsRef = useRef<Record<string, unknown> | undefined>(undefined);
+  // 触发表单：工作流有手动或聊天触发节点时与运行参数一起填写，值作为该节点的输出
+  const triggerForm = useMemo(() => getTriggerForm(workflowData), [workflowData]);
+  const [triggerValues, setTriggerValues] = useState<Record<string, unknown>>({});
+  const lastTriggerRef = useRef<WorkflowTrigger | undefined>(undefined);
+  // 聊天消息的会话 id，在组件的生命周期内保持不变
+  const chatSessionId = useMemo(() => crypto.randomUUID(), []);
+  const [workflowOutputs, setWorkflowOutputs] = useState<Record<string, unknown> | null>(null);
+  const declaredInputs = useMemo(() => workflowData.config.inputs ?? [], [workflowData]);
+  // 运行所用的环境：工具栏中选择，空字符串表示工作流的默认环境
+  const environments = useMemo(() => workflowData.config.environments ?? [], [workflowData]);
+  const [environment, setEnvironment] = useState(initialEnvironment ?? '');
 
   // 更新节点状态
   const updateNodeStatus = useCallback((nodeId: string, status: NodeExecutionStatus) => {
@@ -61,214 +136,127 @@ export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
       ...prev,
       [nodeId]: status
     }));
-    
-    console.log(`Node ${nodeId} status updated to: ${status}`);
   }, []);
 
-  // 执行单个节点（真实执行）
-  const executeNode = useCallback(async (
-    nodeData: { config: { id: string; name: string; type: string }; settings: Record<string, unknown>; originalSettings: Record<string, unknown> },
-    previousResults: Map<string, unknown>
-  ): Promise<NodeExecutionResult> => {
-    console.log(`Executing node: ${nodeData.config.name} (${nodeData.config.type})`);
-    
-    // 从注册表获取节点构造函数
-    const NodeConstructor = NodeRegistry.getNodeConstructor(nodeData.config.type);
-    if (!NodeConstructor) {
-      throw new Error(`Unknown node type: ${nodeData.config.type}`);
-    }
-
-    try {
-      // 创建节点实例
-      const nodeInstance = new NodeConstructor(nodeData.config.id, nodeData.settings);
-      
-      // 恢复原始设置（包含表达式）
-      if (nodeData.originalSettings) {
-        (nodeInstance as unknown as { originalSettings: Record<string, unknown> }).originalSettings = 
-          nodeData.originalSettings;
-      }
-
-      // 构建执行上下文
-      const executionContext: NodeExecutionContext = {
-        workflowId: workflowData.config.id,
-        nodeId: nodeData.config.id,
-        previousResults: previousResults,
-        originalSettings: nodeData.originalSettings
-      };
-
-      // 构建节点输入
-      const nodeInputs: Record<string, unknown> = {};
-      
-      // 如果节点有动态设置，解析它们
-      if (nodeInstance.originalSettings) {
-        nodeInstance.settings = nodeInstance.resolveDynamicSettings(nodeInputs, executionContext);
-      }
-
-      // 执行节点
-      const result = await nodeInstance.execute(nodeInputs, executionContext);
-      
-      console.log(`Node ${nodeData.config.name} executed successfully:`, result);
-      return result;
-      
-    } catch (error) {
-      console.error(`Node ${nodeData.config.name} execution failed:`, error);
-      return {
-        success: false,
-        error: error instanceof Error ? error : new Error(String(error))
-      };
-    }
-  }, [workflowData.config.id]);
-
-  // 执行工作流
-  const executeWorkflow = useCallback(async () => {
-    const { nodes, connections } = workflowData;
+  // 执行工作流：由核心 WorkflowRunner 负责遍历，组件只订阅运行事件
+  const executeWorkflow = useCallback(async (
+    snapshot?: ExecutionSnapshot,
+    stepping = false,
+    inputs?: Record<string, unknown>,
+    trigger?: WorkflowTrigger
+  ) => {
     const results: ExecutionResult[] = [];
-    const previousResults = new Map<string, unknown>();
-    
-    // 初始化节点注册表
-    NodeRegistry.initializeBuiltinTypes();
-    
-    // 构建出边表和入度（用于找到入口节点）
-    type Conn = { sourceNodeId: string; targetNodeId: string; branchIndex?: number };
-    const nodeIds = nodes.map(n => n.config.id);
-    const outMap = new Map<string, { targetNodeId: string; branchIndex?: number; order: number }[]>();
-    const inDegree = new Map<string, number>();
-
-    nodeIds.forEach(id => {
-      outMap.set(id, []);
-      inDegree.set(id, 0);
-    });
-
-    (connections as Conn[]).forEach((conn, idx) => {
-      if (!nodeIds.includes(conn.sourceNodeId) || !nodeIds.includes(conn.targetNodeId)) return;
-      outMap.get(conn.sourceNodeId)?.push({ targetNodeId: conn.targetNodeId, branchIndex: conn.branchIndex, order: idx });
-      inDegree.set(conn.targetNodeId, (inDegree.get(conn.targetNodeId) || 0) + 1);
+    const workflow = WorkflowSerializer.fromJSON(workflowData);
+    const runner = new WorkflowRunner(workflow, {
+      signal: executionAbortController.current?.signal,
+      snapshot,
+      inputs,
+      trigger,
+      // 从快照恢复时沿用快照记录的环境
+      environment: snapshot ? undefined : environment || undefined,
+      staticVariables,
+      credentials,
+      events: eventBus,
+      // 断点与单步模式代替固定的节点间隔来观察执行过程
+      breakpoints: breakpointsRef.current,
+      stepping
     });
+    runnerRef.current = runner;
 
-    // 入口节点：入度为 0
-    const queue: string[] = [];
-    inDegree.forEach((deg, id) => { if (deg === 0) queue.push(id); });
-    const visited = new Set<string>();
-
-    while (queue.length > 0) {
-      const nodeId = queue.shift()!;
+    // 外部总线跨多次运行共享，运行结束后取消本次的订阅
+    const recorder = new ExecutionTraceRecorder(runner.events);
+    const subscriptions = [ExecutionLogger.attach(runner.events), () => recorder.detach()];
 
-      if (visited.has(nodeId)) continue;
-      visited.add(nodeId);
-      // 检查是否被中止
-      if (executionAbortController.current?.signal.aborted) {
-        throw new Error('Execution aborted');
-      }
-
-      const nodeData = nodes.find(n => n.config.id === nodeId);
-      if (!nodeData) continue;
+    subscriptions.push(runner.on('breakpointHit', ({ nodeId, inputs, items, settings }) => {
+      setCurrentNodeId(nodeId);
+      setHalted({ nodeId, settings, itemCount: items.length });
+      // 多个输入项时编辑全部项的 json 数组，单项时只编辑该项
+      setInputDraft(JSON.stringify(items.length > 1 ? items : inputs, null, 2));
+      setInputDraftError(null);
+    }));
 
+    subscriptions.push(runner.on('nodeStarted', ({ nodeId }) => {
+      setHalted(prev => (prev?.nodeId === nodeId ? null : prev));
       setCurrentNodeId(nodeId);
       updateNodeStatus(nodeId, 'running');
+    }));
+
+    subscriptions.push(runner.on('nodeRetrying', ({ nodeId }) => {
+      updateNodeStatus(nodeId, 'retrying');
+    }));
 
+    subscriptions.push(runner.on('nodeFinished', ({ nodeId, result: executionResult, startTime, endTime, pinned, restored }) => {
       const result: ExecutionResult = {
         nodeId,
-        status: 'running',
-        startTime: Date.now()
+        status: executionResult.success ? 'completed' : 'error',
+        startTime,
+        endTime,
+        pinned,
+        // 从快照恢复的节点不再写检查点，输出项取自快照
+        items: restored ? snapshot?.checkpoints[nodeId]?.items : undefined
       };
-
-      try {
-        // 真实的节点执行
-        const executionResult = await executeNode({
-          config: nodeData.config,
-          settings: nodeData.settings || {},
-          originalSettings: nodeData.originalSettings || {}
-        }, previousResults);
-        
-        // 根据执行结果设置状态
-        if (executionResult.success) {
-          result.status = 'completed';
-          result.result = executionResult.data;
-          result.endTime = Date.now();
-          
-          // 保存执行结果供后续节点使用
-          if (executionResult.data) {
-            previousResults.set(nodeId, executionResult.data);
-          }
-          
-          updateNodeStatus(nodeId, 'completed');
-          
-          // 基于分支选择后继（默认第 0 个）
-          let selectedBranchIndex = 0;
-          // 条件节点：优先读取输出的 branchIndex；无则将布尔结果映射为 0/1
-          if (nodeData.config.type === 'condition' && executionResult.data && typeof executionResult.data === 'object') {
-            const outObj = executionResult.data as Record<string, unknown>;
-            const outBranch = outObj['branchIndex'];
-            if (typeof outBranch === 'number' && Number.isFinite(outBranch)) {
-              selectedBranchIndex = outBranch as number;
-            } else {
-              const boolRes = Boolean(outObj['result']);
-              selectedBranchIndex = boolRes ? 1 : 0;
-            }
-          } else {
-            // 允许通过节点设置覆盖
-            const sbi = (nodeData.settings as Record<string, unknown> | undefined)?.['selectedBranchIndex'] ??
-                        (nodeData.originalSettings as Record<string, unknown> | undefined)?.['selectedBranchIndex'];
-            if (typeof sbi === 'number' && Number.isFinite(sbi)) {
-              selectedBranchIndex = sbi as number;
-            }
-          }
-          
-          // 选择单一后继连接：优先匹配 selectedBranchIndex；否则兜底匹配 0
-          const outs = (outMap.get(nodeId) || []).sort((a, b) => a.order - b.order);
-          const nextConn = outs.find(o => (o.branchIndex ?? 0) === selectedBranchIndex) ||
-                           outs.find(o => (o.branchIndex ?? 0) === 0);
-          if (nextConn && !visited.has(nextConn.targetNodeId)) {
-            queue.push(nextConn.targetNodeId);
-          }
-        } else {
-          // 执行失败
-          result.status = 'error';
-          result.error = executionResult.error?.message || 'Node execution failed';
-          result.endTime = Date.now();
-          
-          updateNodeStatus(nodeId, 'error');
-          
-          // 如果节点执行失败，停止整个工作流
-          throw executionResult.error || new Error('Node execution failed');
-        }
-      } catch (error) {
-        result.status = 'error';
-        result.error = error instanceof Error ? error.message : String(error);
-        result.endTime = Date.now();
-        
-        updateNodeStatus(nodeId, 'error');
-        
-        // 如果节点执行失败，停止整个工作流
-        throw error;
+      if (executionResult.success) {
+        result.result = executionResult.data;
+      } else {
+        result.error = executionResult.error?.message || 'Node execution failed';
       }
 
+      updateNodeStatus(nodeId, result.status);
       results.push(result);
       setExecutionResults([...results]);
 
       if (onNodeExecutionUpdate) {
         onNodeExecutionUpdate(result);
       }
+    }));
+
+    // 节点完成后写入的检查点带有其按分支分组的输出项
+    subscriptions.push(runner.on('checkpoint', ({ nodeId, snapshot: current }) => {
+      const result = [...results].reverse().find(r => r.nodeId === nodeId);
+      if (result) result.items = current.checkpoints[nodeId]?.items;
+    }));
 
-      // 添加执行间隔以便观察执行过程
-      await new Promise(resolve => setTimeout(resolve, 500));
+    const runResult = await runner.run().finally(() => {
+      subscriptions.forEach(unsubscribe => unsubscribe());
+      setLastTrace(recorder.getTrace() ?? null);
+      setHalted(null);
+      if (runnerRef.current === runner) runnerRef.current = null;
+    });
+
+    if (runResult.status === 'aborted') {
+      throw new Error('Execution aborted');
+    }
+    if (runResult.status === 'failed') {
+      // 保留快照，修复节点设置后可从失败节点继续
+      setFailedSnapshot(runResult.snapshot);
+      // 如果节点执行失败，停止整个工作流
+      throw runResult.error || new Error('Node execution failed');
     }
 
     setExecutionStatus('completed');
     setCurrentNodeId(null);
+    setWorkflowOutputs(runResult.outputs ?? null);
 
     if (onExecutionComplete) {
       onExecutionComplete(results);
     }
-  }, [workflowData, onExecutionComplete, onNodeExecutionUpdate, updateNodeStatus, executeNode]);
-
-  // 开始执行工作流
-  const startExecution = useCallback(async () => {
-    if (executionStatus === 'running') return;
-
+  }, [workflowData, onExecutionComplete, onNodeExecutionUpdate, updateNodeStatus, eventBus, staticVariables, credentials, environment]);
+
+  // 启动一次运行；传入快照时复用其中已完成节点的输出
+  const runExecution = useCallback(async (
+    snapshot?: ExecutionSnapshot,
+    stepping = false,
+    inputs?: Record<string, unknown>,
+    trigger?: WorkflowTrigger
+  ) => {
     setExecutionStatus('running');
     setExecutionResults([]);
     setCurrentNodeId(null);
+    setFailedSnapshot(null);
+    setReplaying(false);
+    setWorkflowOutputs(null);
+    lastInputsRef.current = inputs;
+    lastTriggerRef.current = trigger;
     
     // 创建中止控制器
     executionAbortController.current = new AbortController();
@@ -278,7 +266,7 @@ export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
     }
 
     try {
-      await executeWorkflow();
+      await executeWorkflow(snapshot, stepping, inputs, trigger);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       
@@ -294,15 +282,97 @@ export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
         onExecutionError(errorMessage);
       }
     }
-  }, [executionStatus, onExecutionStart, onExecutionError, executeWorkflow]);
+  }, [onExecutionStart, onExecutionError, executeWorkflow]);
+
+  // 发起新的运行：声明了输入或触发表单有字段时先填写（预填默认值）
+  const requestRun = useCallback((stepping: boolean) => {
+    const triggerFields = triggerForm?.fields ?? [];
+    if (declaredInputs.length === 0 && triggerFields.length === 0) {
+      void runExecution(undefined, stepping, undefined, triggerForm ? { nodeId: triggerForm.nodeId } : undefined);
+      return;
+    }
+    setInputValues(Object.fromEntries(declaredInputs.map(definition => [
+      definition.name,
+      formatInputDefault(definition)
+    ])));
+    setTriggerValues(Object.fromEntries(triggerFields.map(definition => [
+      definition.name,
+      formatInputDefault(definition)
+    ])));
+    setInputErrors([]);
+    setInputPrompt({ stepping });
+  }, [declaredInputs, triggerForm, runExecution]);
+
+  // 提交运行参数与触发表单：按各自的声明校验，通过后开始运行
+  const submitInputs = useCallback(() => {
+    if (!inputPrompt) return;
+    const errors: string[] = [];
+    const resolve = (definitions: WorkflowInputDefinition[], values: Record<string, unknown>) => {
+      try {
+        return WorkflowIOUtils.resolveInputs(definitions, values);
+      } catch (error) {
+        errors.push(...(error instanceof WorkflowInputError ? error.errors : [String(error)]));
+        return undefined;
+      }
+    };
+    const inputs = resolve(declaredInputs, inputValues);
+    const triggerData = triggerForm ? resolve(triggerForm.fields, triggerValues) : undefined;
+    if (errors.length > 0) {
+      setInputErrors(errors);
+      return;
+    }
+    setInputPrompt(null);
+    void runExecution(
+      undefined,
+      inputPrompt.stepping,
+      inputs,
+      triggerForm ? { nodeId: triggerForm.nodeId, data: triggerData } : undefined
+    );
+  }, [inputPrompt, declaredInputs, inputValues, triggerForm, triggerValues, runExecution]);
+
+  // 聊天框发送的消息作为聊天触发节点的输出；运行参数取声明的默认值
+  useImperativeHandle(ref, () => ({
+    sendChatMessage: (message: string) => {
+      if (triggerForm?.type !== 'chat-trigger' || executionStatus === 'running' || executionStatus === 'paused') {
+        return false;
+      }
+      setInputPrompt(null);
+      void runExecution(undefined, false, undefined, {
+        nodeId: triggerForm.nodeId,
+        data: { message, sessionId: chatSessionId }
+      });
+      return true;
+    }
+  }), [triggerForm, executionStatus, chatSessionId, runExecution]);
+
+  // 开始执行工作流（暂停状态下为继续执行）
+  const startExecution = useCallback(() => {
+    if (executionStatus === 'running') return;
+
+    if (executionStatus === 'paused' && runnerRef.current) {
+      setExecutionStatus('running');
+      runnerRef.current.resume();
+      return;
+    }
+
+    requestRun(false);
+  }, [executionStatus, requestRun]);
+
+  // 从失败节点继续：上游节点的输出取自快照，不会重新执行
+  const resumeFromFailure = useCallback(() => {
+    if (executionStatus !== 'error' || !failedSnapshot) return;
+    if (failedSnapshot.workflowId !== workflowData.config.id) {
+      setFailedSnapshot(null);
+      return;
+    }
+    void runExecution(failedSnapshot, false, lastInputsRef.current, lastTriggerRef.current);
+  }, [executionStatus, failedSnapshot, workflowData.config.id, runExecution]);
 
-  // 暂停执行
+  // 暂停执行：已在执行的节点完成后不再调度新节点，继续时从同一位置恢复
   const pauseExecution = useCallback(() => {
-    if (executionStatus === 'running') {
+    if (executionStatus === 'running' && runnerRef.current) {
       setExecutionStatus('paused');
-      if (executionAbortController.current) {
-        executionAbortController.current.abort();
-      }
+      runnerRef.current.pause();
     }
   }, [executionStatus]);
 
@@ -325,6 +395,8 @@ export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
     setExecutionStatus('idle');
     setExecutionResults([]);
     setCurrentNodeId(null);
+    setFailedSnapshot(null);
+    setWorkflowOutputs(null);
     
     // 重置所有节点状态
     const resetStatuses: Record<string, NodeExecutionStatus> = {};
@@ -334,10 +406,90 @@ export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
     setNodeStatuses(resetStatuses);
   }, [workflowData.nodes]);
 
+  // 切换节点断点，运行中修改立即同步给运行器
+  const toggleBreakpoint = useCallback((nodeId: string) => {
+    const next = breakpointsRef.current.includes(nodeId)
+      ? breakpointsRef.current.filter(id => id !== nodeId)
+      : [...breakpointsRef.current, nodeId];
+    breakpointsRef.current = next;
+    setBreakpoints(next);
+    runnerRef.current?.setBreakpoints(next);
+  }, []);
 
-  // 取消使用全量拓扑执行顺序，改为按分支的动态队列遍历
+  // 放行停下的节点：单步在下一个节点前再次停下，继续则运行到下一个断点
+  const releaseHaltedNode = useCallback((mode: 'step' | 'continue') => {
+    const runner = runnerRef.current;
+    if (!runner || !halted) return;
 
+    // 对象替换首个输入项，数组替换全部输入项
+    let edit: { inputs: Record<string, unknown> } | { items: Record<string, unknown>[] };
+    try {
+      const parsed = JSON.parse(inputDraft) as unknown;
+      const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+      if (Array.isArray(parsed) && parsed.every(isObject)) {
+        edit = { items: parsed as Record<string, unknown>[] };
+      } else if (isObject(parsed)) {
+        edit = { inputs: parsed as Record<string, unknown> };
+      } else {
+        throw new Error('输入必须是 JSON 对象或对象数组');
+      }
+    } catch (error) {
+      setInputDraftError(error instanceof Error ? error.message : String(error));
+      return;
+    }
 
+    setHalted(null);
+    if (mode === 'step') {
+      runner.step({ nodeId: halted.nodeId, ...edit });
+    } else {
+      runner.continue({ nodeId: halted.nodeId, ...edit });
+    }
+  }, [halted, inputDraft]);
+
+  // 带固定输出的节点
+  const pinnedNodeIds = useMemo(
+    () => new Set(workflowData.nodes.filter(n => n.pinnedData !== undefined).map(n => n.config.id)),
+    [workflowData]
+  );
+
+  // 固定节点输出：把上一次运行的真实结果（及其输出项）写入工作流 JSON；已固定时取消
+  const togglePinnedOutput = useCallback((result: ExecutionResult) => {
+    if (!onWorkflowChange) return;
+    onWorkflowChange(pinnedNodeIds.has(result.nodeId)
+      ? WorkflowSerializer.unpinNodeOutput(workflowData, result.nodeId)
+      : WorkflowSerializer.pinNodeOutput(workflowData, result.nodeId, result.result, result.items));
+  }, [workflowData, pinnedNodeIds, onWorkflowChange]);
+
+  // 导出执行轨迹为 JSON 文件
+  const exportTrace = useCallback(() => {
+    if (!lastTrace) return;
+    const blob = new Blob([ExecutionTraceUtils.toJSONString(lastTrace)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${lastTrace.workflowId}-trace-${lastTrace.startTime}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [lastTrace]);
+
+  // 导入轨迹文件（例如生产环境运行的记录）并进入回放
+  const importTrace = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const trace = ExecutionTraceUtils.fromJSONString(await file.text());
+      if (trace.workflowId !== workflowData.config.id) {
+        throw new Error(`Trace belongs to workflow ${trace.workflowId}, not ${workflowData.config.id}`);
+      }
+      setLastTrace(trace);
+      setReplaying(true);
+    } catch (error) {
+      if (onExecutionError) {
+        onExecutionError(error instanceof Error ? error.message : String(error));
+      }
+    }
+  }, [workflowData.config.id, onExecutionError]);
 
   return (
     <div className={`workflow-executor ${className || ''}`}>
@@ -349,10 +501,10 @@ export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
               className={`control-btn ${executionStatus === 'running' ? 'active' : ''}`}
               onClick={startExecution}
               disabled={executionStatus === 'running'}
-              title="开始执行"
+              title={executionStatus === 'paused' ? '继续执行' : '开始执行'}
             >
               <Play size={16} />
-              开始
+              {executionStatus === 'paused' ? '继续' : '开始'}
             </button>
             
             <button
@@ -365,6 +517,26 @@ export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
               暂停
             </button>
             
+            <button
+              className="control-btn"
+              onClick={() => requestRun(true)}
+              disabled={executionStatus === 'running' || executionStatus === 'paused'}
+              title="单步调试：在每个节点执行前停下"
+            >
+              <Bug size={16} />
+              调试
+            </button>
+
+            <button
+              className="control-btn"
+              onClick={resumeFromFailure}
+              disabled={executionStatus !== 'error' || !failedSnapshot}
+              title="从失败节点继续"
+            >
+              <StepForward size={16} />
+              重试失败节点
+            </button>
+
             <button
               className="control-btn"
               onClick={stopExecution}
@@ -383,6 +555,60 @@ export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
               <RotateCcw size={16} />
               重置
             </button>
+
+            <button
+              className={`control-btn ${replaying ? 'active' : ''}`}
+              onClick={() => setReplaying(prev => !prev)}
+              disabled={!lastTrace || executionStatus === 'running' || executionStatus === 'paused'}
+              title="在画布上回放执行轨迹"
+            >
+              <History size={16} />
+              回放
+            </button>
+
+            <button
+              className="control-btn"
+              onClick={exportTrace}
+              disabled={!lastTrace}
+              title="导出执行轨迹"
+            >
+              <Download size={16} />
+              导出轨迹
+            </button>
+
+            <button
+              className="control-btn"
+              onClick={() => traceFileInput.current?.click()}
+              disabled={executionStatus === 'running' || executionStatus === 'paused'}
+              title="导入执行轨迹"
+            >
+              <Upload size={16} />
+              导入轨迹
+            </button>
+            <input
+              ref={traceFileInput}
+              type="file"
+              accept="application/json,.json"
+              style={{ display: 'none' }}
+              onChange={importTrace}
+            />
+
+            {environments.length > 0 && (
+              <select
+                className="control-btn environment-select"
+                value={environment}
+                onChange={event => setEnvironment(event.target.value)}
+                disabled={executionStatus === 'running' || executionStatus === 'paused'}
+                title="运行环境"
+              >
+                <option value="">
+                  默认环境{workflowData.config.defaultEnvironment ? `（${workflowData.config.defaultEnvironment}）` : ''}
+                </option>
+                {environments.map(env => (
+                  <option key={env.name} value={env.name}>{env.name}</option>
+                ))}
+              </select>
+            )}
           </div>
 
           <div className="execution-status">
@@ -402,6 +628,10 @@ export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
       <WorkflowCanvas
         workflowData={workflowData}
         nodeStatuses={nodeStatuses}
+        trace={replaying && lastTrace ? lastTrace : undefined}
+        breakpoints={breakpoints}
+        haltedNodeId={halted?.nodeId}
+        onToggleBreakpoint={toggleBreakpoint}
         singleRow={singleRow}
         showMiniMap={showMiniMap}
         showFlowControls={showControls}
@@ -410,23 +640,117 @@ export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
         }}
       />
 
+      {/* 运行参数面板：按工作流的输入声明填写 */}
+      {inputPrompt && (
+        <div className="inputs-panel">
+          <div className="debugger-header">
+            <span className="node-name">运行参数</span>
+            <button className="control-btn" onClick={submitInputs} title="使用这些参数开始运行">
+              <Play size={16} />
+              运行
+            </button>
+            <button className="control-btn" onClick={() => setInputPrompt(null)} title="取消">
+              <Square size={16} />
+              取消
+            </button>
+          </div>
+          {declaredInputs.map(definition => (
+            <InputFieldEditor
+              key={definition.name}
+              definition={definition}
+              value={inputValues[definition.name]}
+              onChange={value => setInputValues(prev => ({ ...prev, [definition.name]: value }))}
+            />
+          ))}
+          {triggerForm && triggerForm.fields.length > 0 && (
+            <label className="debugger-label">
+              {workflowData.nodes.find(n => n.config.id === triggerForm.nodeId)?.config.name || triggerForm.nodeId}
+            </label>
+          )}
+          {triggerForm?.fields.map(definition => (
+            <InputFieldEditor
+              key={`trigger-${definition.name}`}
+              definition={definition}
+              value={triggerValues[definition.name]}
+              onChange={value => setTriggerValues(prev => ({ ...prev, [definition.name]: value }))}
+            />
+          ))}
+          {inputErrors.map(error => (
+            <div key={error} className="result-error">{error}</div>
+          ))}
+        </div>
+      )}
+
+      {/* 调试面板：节点执行前停下时显示解析后的输入与设置 */}
+      {halted && (
+        <div className="debugger-panel">
+          <div className="debugger-header">
+            <span className="node-name">
+              停在：{workflowData.nodes.find(n => n.config.id === halted.nodeId)?.config.name || halted.nodeId}
+            </span>
+            <button className="control-btn" onClick={() => releaseHaltedNode('step')} title="执行该节点并在下一个节点前停下">
+              <SkipForward size={16} />
+              单步
+            </button>
+            <button className="control-btn" onClick={() => releaseHaltedNode('continue')} title="继续运行到下一个断点">
+              <Play size={16} />
+              继续
+            </button>
+          </div>
+          <label className="debugger-label">
+            {halted.itemCount > 1 ? `输入（可编辑，共 ${halted.itemCount} 项）` : '输入（可编辑）'}
+          </label>
+          <textarea
+            className="debugger-inputs"
+            value={inputDraft}
+            onChange={(event) => setInputDraft(event.target.value)}
+            spellCheck={false}
+          />
+          {inputDraftError && <div className="result-error">{inputDraftError}</div>}
+          <label className="debugger-label">设置（已解析表达式）</label>
+          <pre className="debugger-settings">{JSON.stringify(halted.settings, null, 2)}</pre>
+        </div>
+      )}
+
       {/* 执行结果面板 */}
       {executionResults.length > 0 && (
         <div className="execution-results">
           <h3>执行结果</h3>
+          {workflowOutputs && (
+            <div className="result-item status-completed">
+              <div className="result-header">
+                <span className="node-name">工作流输出</span>
+              </div>
+              <div className="result-data">
+                <pre>{JSON.stringify(workflowOutputs, null, 2)}</pre>
+              </div>
+            </div>
+          )}
           <div className="results-list">
-            {executionResults.map((result) => (
-              <div key={result.nodeId} className={`result-item status-${result.status}`}>
+            {/* 结果只追加不修改，循环与回边会让同一节点出现多次，因此按位置作为 key */}
+            {executionResults.map((result, index) => (
+              <div key={`${index}-${result.nodeId}`} className={`result-item status-${result.status}`}>
                 <div className="result-header">
                   <span className="node-name">
                     {workflowData.nodes.find(n => n.config.id === result.nodeId)?.config.name}
                   </span>
-                  <span className="result-status">{getStatusText(result.status)}</span>
+                  <span className="result-status">
+                    {getStatusText(result.status)}{result.pinned ? '（固定输出）' : ''}
+                  </span>
                   {result.endTime && (
                     <span className="execution-time">
                       {result.endTime - result.startTime}ms
                     </span>
                   )}
+                  {onWorkflowChange && result.status === 'completed' && (
+                    <button
+                      className="pin-output-btn"
+                      onClick={() => togglePinnedOutput(result)}
+                      title={pinnedNodeIds.has(result.nodeId) ? '取消固定输出' : '将本次输出固定为该节点的模拟输出'}
+                    >
+                      {pinnedNodeIds.has(result.nodeId) ? <PinOff size={14} /> : <Pin size={14} />}
+                    </button>
+                  )}
                 </div>
                 {result.error && (
                   <div className="result-error">{result.error}</div>
@@ -445,11 +769,73 @@ export const WorkflowExecutor: React.FC<WorkflowExecutorProps> = ({
   );
 };
 
+// 运行参数或触发表单的单个字段
+const InputFieldEditor: React.FC<{
+  definition: WorkflowInputDefinition;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}> = ({ definition, value, onChange }) => (
+  <div className="input-field">
+    <label className="debugger-label">
+      {definition.name}{definition.required ? ' *' : ''}（{definition.type}）
+      {definition.description && <span className="input-description">{definition.description}</span>}
+    </label>
+    {definition.type === 'boolean' ? (
+      <input
+        type="checkbox"
+        checked={value === true}
+        onChange={(event) => onChange(event.target.checked)}
+      />
+    ) : definition.type === 'object' || definition.type === 'array' ? (
+      <textarea
+        className="debugger-inputs"
+        value={String(value ?? '')}
+        onChange={(event) => onChange(event.target.value)}
+        spellCheck={false}
+      />
+    ) : (
+      <input
+        className="input-value"
+        type={definition.type === 'number' ? 'number' : 'text'}
+        value={String(value ?? '')}
+        onChange={(event) => onChange(event.target.value)}
+      />
+    )}
+  </div>
+);
+
+// 工作流中第一个手动或聊天触发节点；聊天触发节点在执行器中以单个 message 字段填写
+function getTriggerForm(workflowData: WorkflowJson): TriggerForm | undefined {
+  for (const node of workflowData.nodes) {
+    const settings = node.originalSettings ?? node.settings ?? {};
+    if (node.config.type === 'manual-trigger') {
+      const fields = Array.isArray(settings.fields) ? settings.fields as WorkflowInputDefinition[] : [];
+      return { nodeId: node.config.id, type: 'manual-trigger', fields };
+    }
+    if (node.config.type === 'chat-trigger') {
+      const description = typeof settings.placeholder === 'string' ? settings.placeholder : undefined;
+      const fields = CHAT_TRIGGER_FIELDS.map(field => ({ ...field, ...(description ? { description } : {}) }));
+      return { nodeId: node.config.id, type: 'chat-trigger', fields };
+    }
+  }
+  return undefined;
+}
+
+// 输入表单的初始值：对象与数组以 JSON 文本编辑，布尔值用复选框
+function formatInputDefault(definition: WorkflowInputDefinition): unknown {
+  const value = definition.default;
+  if (definition.type === 'boolean') return value === true;
+  if (value === undefined) return '';
+  if (definition.type === 'object' || definition.type === 'array') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
 // 获取状态文本
 function getStatusText(status: string): string {
   const statusMap: Record<string, string> = {
     'idle': '待机',
     'running': '运行中',
+    'retrying': '重试中',
     'paused': '已暂停',
     'completed': '已完成',
     'error': '错误',
@@ -9,9 +9,15 @@ export interface WorkflowNodeData {
   id: string;
   name: string;
   type: string;
-  status?: 'pending' | 'running' | 'completed' | 'error';
+  status?: 'pending' | 'running' | 'retrying' | 'completed' | 'error';
   settings?: Record<string, unknown>;
   originalSettings?: Record<string, unknown>;
+  // 调试：是否设置了断点、是否正停在该节点前，以及切换断点的回调
+  breakpoint?: boolean;
+  halted?: boolean;
+  onToggleBreakpoint?: (nodeId: string) => void;
+  // 节点带有固定输出，执行时不会真正调用
+  pinned?: boolean;
 }
 
 // 节点属性接口 - 兼容ReactFlow
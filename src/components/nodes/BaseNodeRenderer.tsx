@@ -1,6 +1,6 @@
 import React from 'react';
 import { Handle, Position } from 'reactflow';
-import { AlertCircle } from 'lucide-react';
+import { AlertCircle, Pin } from 'lucide-react';
 import './BaseNodeRenderer.css';
 
 // 基础节点渲染器属性接口
@@ -9,9 +9,13 @@ export interface NodeRendererProps {
     id: string;
     name: string;
     type: string;
-    status?: 'pending' | 'running' | 'completed' | 'error';
+    status?: 'pending' | 'running' | 'retrying' | 'completed' | 'error';
     settings?: Record<string, unknown>;
     originalSettings?: Record<string, unknown>;
+    breakpoint?: boolean;
+    halted?: boolean;
+    onToggleBreakpoint?: (nodeId: string) => void;
+    pinned?: boolean;
   };
   selected?: boolean;
   onNodeClick?: (nodeId: string, nodeData: unknown) => void;
@@ -23,6 +27,7 @@ export interface NodeRendererProps {
 export const STATUS_COLORS = {
   'pending': '#9CA3AF',    // gray
   'running': '#3B82F6',    // blue
+  'retrying': '#F59E0B',   // amber
   'completed': '#10B981',  // green
   'error': '#EF4444'       // red
 } as const;
@@ -125,12 +130,31 @@ export const BaseNodeRenderer: React.FC<BaseNodeRendererProps> = ({
         className={`base-node-status status-${data.status}`}
         title={getStatusLabel(data.status)}
       >
-        {data.status === 'running' && <div className="status-spinner" />}
+        {(data.status === 'running' || data.status === 'retrying') && <div className="status-spinner" />}
         {data.status === 'error' && <AlertCircle size={12} />}
       </div>
     );
   };
 
+  // 渲染断点标记：可切换时显示为按钮，已设置断点时为实心红点
+  const renderBreakpoint = () => {
+    if (!data.onToggleBreakpoint && !data.breakpoint) return null;
+    const toggle = data.onToggleBreakpoint;
+
+    return (
+      <button
+        type="button"
+        className={`base-node-breakpoint ${data.breakpoint ? 'active' : ''}`}
+        title={data.breakpoint ? 'Remove breakpoint' : 'Add breakpoint'}
+        disabled={!toggle}
+        onClick={(event) => {
+          event.stopPropagation();
+          toggle?.(data.id);
+        }}
+      />
+    );
+  };
+
   // 渲染节点头部
   const renderHeader = () => {
     if (!defaultHeader.title && !defaultHeader.icon && !defaultHeader.showStatus) {
@@ -142,6 +166,7 @@ export const BaseNodeRenderer: React.FC<BaseNodeRendererProps> = ({
         className="base-node-header"
         style={{ backgroundColor: defaultHeader.backgroundColor }}
       >
+        {renderBreakpoint()}
         {defaultHeader.icon && (
           <div className="base-node-icon">
             {defaultHeader.icon}
@@ -152,6 +177,12 @@ export const BaseNodeRenderer: React.FC<BaseNodeRendererProps> = ({
             {defaultHeader.title}
           </span>
         )}
+        {data.pinned && (
+          <span className="base-node-pinned-badge" title="Output is pinned">
+            <Pin size={10} />
+            pinned
+          </span>
+        )}
         {renderStatusIndicator()}
       </div>
     );
@@ -216,7 +247,7 @@ export const BaseNodeRenderer: React.FC<BaseNodeRendererProps> = ({
 
   return (
     <div 
-      className={`base-node-renderer ${selected ? 'selected' : ''} ${className} ${defaultStyling.className || ''}`}
+      className={`base-node-renderer ${selected ? 'selected' : ''} ${data.halted ? 'halted' : ''} ${className} ${defaultStyling.className || ''}`}
       style={{
         borderColor: defaultStyling.borderColor,
         backgroundColor: statusColor ? `${statusColor}10` : defaultStyling.backgroundColor,
@@ -238,6 +269,7 @@ function getStatusLabel(status: string): string {
   const labels: Record<string, string> = {
     'pending': 'Pending',
     'running': 'Running',
+    'retrying': 'Retrying',
     'completed': 'Completed',
     'error': 'Error'
   };
@@ -11,7 +11,13 @@ import {
   Database,
   Settings,
   FileText,
-  CheckCircle
+  CheckCircle,
+  Repeat,
+  Variable,
+  Webhook,
+  Reply,
+  MousePointerClick,
+  MessageSquare
 } from 'lucide-react';
 import { BaseNodeRenderer } from './BaseNodeRenderer';
 import { NodeRegistry } from '../../core/utils/WorkflowSerializer';
@@ -22,9 +28,13 @@ export interface NodeRendererProps {
     id: string;
     name: string;
     type: string;
-    status?: 'pending' | 'running' | 'completed' | 'error';
+    status?: 'pending' | 'running' | 'retrying' | 'completed' | 'error';
     settings?: Record<string, unknown>;
     originalSettings?: Record<string, unknown>;
+    breakpoint?: boolean;
+    halted?: boolean;
+    onToggleBreakpoint?: (nodeId: string) => void;
+    pinned?: boolean;
   };
   selected?: boolean;
   onNodeClick?: (nodeId: string, nodeData: unknown) => void;
@@ -40,6 +50,12 @@ function getNodeTypeIcon(type: string): React.ReactNode {
     'code': <Code2 size={20} />,
     'agent': <Bot size={20} />,
     'condition': <GitBranch size={20} />,
+    'loop': <Repeat size={20} />,
+    'set-variable': <Variable size={20} />,
+    'webhook-trigger': <Webhook size={20} />,
+    'webhook-respond': <Reply size={20} />,
+    'manual-trigger': <MousePointerClick size={20} />,
+    'chat-trigger': <MessageSquare size={20} />,
     'trigger': <Play size={20} />,
     'task': <Settings size={20} />,
     'start': <Play size={20} />,
@@ -61,6 +77,12 @@ function getNodeTypeColor(type: string): string {
     'code': '#8B5CF6',          // 紫色
     'agent': '#EF4444',         // 红色
     'condition': '#F59E0B',     // 黄色
+    'loop': '#0EA5E9',          // 青色
+    'set-variable': '#14B8A6',  // 蓝绿色
+    'webhook-trigger': '#10B981', // 绿色
+    'webhook-respond': '#3B82F6', // 蓝色
+    'manual-trigger': '#10B981',  // 绿色
+    'chat-trigger': '#10B981',    // 绿色
     'trigger': '#10B981',       // 绿色
     'task': '#6B7280',          // 灰色
     'start': '#10B981',         // 绿色
@@ -118,7 +140,13 @@ function getNodeTypeLabel(type: string): string {
       'http-request': 'HTTP Request',
       'code': 'Code Execution',
       'agent': 'AI Agent',
-      'condition': 'Condition'
+      'condition': 'Condition',
+      'loop': 'Loop',
+      'set-variable': 'Set Variable',
+      'webhook-trigger': 'Webhook Trigger',
+      'webhook-respond': 'Respond to Webhook',
+      'manual-trigger': 'Manual Trigger',
+      'chat-trigger': 'Chat Trigger'
     };
     
     return typeLabels[type] || type.toUpperCase();
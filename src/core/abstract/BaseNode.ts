@@ -1,4 +1,11 @@
+import type { z } from 'zod';
 import { ExpressionParser, type ExpressionContext } from '../utils/ExpressionParser';
+import type { ExecutionEventBus } from '../engine/ExecutionEvents';
+import type { WorkflowVariables } from '../engine/WorkflowVariables';
+import type { CredentialVault } from '../credentials/CredentialVault';
+import { WorkflowEnvironmentUtils } from '../engine/WorkflowEnvironment';
+import type { NodeExecutionMode, NodeItem } from '../engine/NodeItems';
+import type { WorkflowResponse } from '../engine/WorkflowRunner';
 
 // 节点执行上下文
 export interface NodeExecutionContext {
@@ -7,20 +14,107 @@ export interface NodeExecutionContext {
   previousResults: Map<string, unknown>;
   // 添加原始设置，用于表达式解析
   originalSettings?: Record<string, unknown>;
+  // 取消信号：运行被停止或节点超时时触发，节点与工具应据此中断进行中的工作
+  signal?: AbortSignal;
+  // 运行的事件总线：节点内部活动（如工具调用）通过它发布
+  events?: ExecutionEventBus;
+  // 循环体内执行时的迭代上下文，表达式中以 $item / $index 访问
+  loop?: LoopIterationContext;
+  // 工作流的运行参数，表达式中以 $workflow.input.name 访问
+  workflowInputs?: Record<string, unknown>;
+  // 本次运行的变量作用域，表达式中以 $vars.name 访问
+  variables?: WorkflowVariables;
+  // 凭证保险库：节点设置只保存凭证 id，执行时由此解析认证信息
+  credentials?: CredentialVault;
+  // 当前环境的值，表达式中以 $env.name 访问
+  environment?: Record<string, unknown>;
+  // 当前环境对本节点设置的覆盖（设置路径 → 值），在解析表达式前应用
+  settingOverrides?: Record<string, unknown>;
+  // 本次执行的全部输入项；eachItem 模式下 item / itemIndex 为当前项（inputs 即 item.json）
+  items?: NodeItem[];
+  item?: NodeItem;
+  itemIndex?: number;
+  // 触发本次运行的载荷（如定时触发的计划时间），只传给触发运行的触发节点
+  trigger?: Record<string, unknown>;
+  // 回复触发调用方（如等待响应的 Webhook 请求）；调用方不等待回复时没有
+  respond?: (response: WorkflowResponse) => void;
+}
+
+// 循环迭代上下文
+export interface LoopIterationContext {
+  loopNodeId: string;
+  item: unknown;
+  index: number;
 }
 
 // 节点执行结果
 export interface NodeExecutionResult<TOutput = unknown> {
   success: boolean;
   data?: TOutput;
+  // 输出项：缺省时由 data 转换（数组的每个元素为一项，其他值为单项）
+  items?: NodeItem[];
   error?: Error;
 }
 
+// 保留的错误分支索引：连接到该分支的节点在源节点失败时执行，工作流不会因此中止
+export const ERROR_BRANCH_INDEX = -1;
+
+// 节点失败并走错误分支时的输出（即 $result.nodeId），下游可通过 $input.error.message 等读取
+export interface NodeErrorOutput {
+  error: {
+    name: string;
+    message: string;
+    nodeId: string;
+  };
+  // 失败节点收到的输入（eachItem 模式下为失败的那一项）
+  input: Record<string, unknown>;
+  // 失败的输入项序号（多个输入项时）
+  itemIndex?: number;
+}
+
+// 汇合模式：waitAll 等待所有上游结束；waitAny 首个上游到达即执行；firstN 到达 count 个即执行
+export type NodeJoinMode = 'waitAll' | 'waitAny' | 'firstN';
+
+// 多个上游输出的合并策略：namespaced 按来源节点 ID 分组；append 追加为数组；shallow 浅合并
+export type NodeMergeStrategy = 'namespaced' | 'append' | 'shallow';
+
+// 多入边节点的汇合配置
+export interface NodeJoinConfig {
+  mode?: NodeJoinMode;       // 默认 waitAll
+  count?: number;            // firstN 模式下需要到达的上游数量
+  merge?: NodeMergeStrategy; // 默认 shallow
+}
+
+// 节点重试策略：由执行引擎在节点失败后应用
+export interface NodeRetryPolicy {
+  maxAttempts: number;                // 总尝试次数（含首次执行）
+  backoff?: 'fixed' | 'exponential';  // 默认 exponential
+  initialDelay?: number;              // 首次重试前的等待（毫秒），默认 1000
+  maxDelay?: number;                  // 单次等待上限（毫秒），默认 30000
+  multiplier?: number;                // 指数退避倍数，默认 2
+  jitter?: boolean;                   // 是否对等待时间加随机抖动
+  retryOnErrors?: string[];           // 可重试的错误名或消息片段；缺省时所有错误均可重试
+  retryOnStatusCodes?: number[];      // 可重试的 HTTP 状态码（如 429、503）
+}
+
 // 节点配置接口
 export interface NodeConfig {
   id: string;
   name: string;
   type: string;
+  join?: NodeJoinConfig;
+  retry?: NodeRetryPolicy;
+  timeout?: number; // 单次执行超时（毫秒），由执行引擎强制
+  executionMode?: NodeExecutionMode; // 覆盖节点类型的默认执行模式
+}
+
+// 节点类型的端口与设置模式（zod）：执行引擎在节点边界校验输入与输出，画布据此检查连接，静态校验据此检查设置
+export interface NodeSchemas {
+  input?: z.ZodType;
+  output?: z.ZodType;
+  // 输出项 json 的模式，缺省与 output 相同；输出项不是 data 的形状时（如按数组拆分）由节点声明
+  item?: z.ZodType;
+  settings?: z.ZodType;
 }
 
 // 抽象基础节点类
@@ -33,6 +127,13 @@ export abstract class BaseNode<
   public readonly config: NodeConfig;
   public settings: TSettings;
   public readonly originalSettings: TSettings; // 保存原始设置（包含表达式）
+  public pinnedData?: TOutput; // 固定输出：设置后执行引擎直接返回该数据而不调用 execute（测试运行用）
+  public pinnedItems?: Record<string, NodeItem[]>; // 固定的输出项（按分支索引分组）；缺省时由 pinnedData 还原
+
+  // 节点类型声明的模式，子类以 static schemas 覆盖
+  public static schemas: NodeSchemas = {};
+  // 节点类型的默认执行模式，子类以 static executionMode 覆盖
+  public static executionMode: NodeExecutionMode = 'eachItem';
 
   constructor(config: NodeConfig, settings: TSettings) {
     const incomingId = (config as Partial<NodeConfig>).id as string | undefined;
@@ -57,23 +158,45 @@ export abstract class BaseNode<
     inputs: TInput,
     context: NodeExecutionContext
   ): TSettings {
-    const expressionContext: ExpressionContext = {
+    // 使用工具函数深度遍历并解析所有字符串中的表达式
+    const resolvedSettings = ExpressionParser.deepParseExpressions(
+      this.getEffectiveSettings(context),
+      this.createExpressionContext(inputs, context)
+    ) as TSettings;
+
+    return resolvedSettings;
+  }
+
+  // 本节点的模式；输入要求取决于设置时（如未设置 items 的循环节点）由子类按实例调整
+  public getSchemas(): NodeSchemas {
+    return (this.constructor as typeof BaseNode).schemas;
+  }
+
+  // 本节点的执行模式：节点配置优先，其次节点类型的默认值
+  public getExecutionMode(): NodeExecutionMode {
+    return this.config.executionMode ?? (this.constructor as typeof BaseNode).executionMode;
+  }
+
+  // 应用环境覆盖后的原始设置（尚未解析表达式）
+  protected getEffectiveSettings(context: NodeExecutionContext): TSettings {
+    return WorkflowEnvironmentUtils.applyOverrides(this.originalSettings, context.settingOverrides);
+  }
+
+  // 构建表达式上下文
+  protected createExpressionContext(inputs: TInput, context: NodeExecutionContext): ExpressionContext {
+    return {
       previousResults: context.previousResults,
       currentInputs: inputs,
-      currentSettings: this.originalSettings,
+      currentSettings: this.getEffectiveSettings(context),
       executionContext: {
         workflowId: context.workflowId,
         nodeId: context.nodeId
-      }
+      },
+      loop: context.loop,
+      workflowInputs: context.workflowInputs,
+      variables: context.variables?.toJSON(),
+      environment: context.environment
     };
-
-    // 使用工具函数深度遍历并解析所有字符串中的表达式
-    const resolvedSettings = ExpressionParser.deepParseExpressions(
-      this.originalSettings,
-      expressionContext
-    ) as TSettings;
-
-    return resolvedSettings;
   }
 
   // 生成 UUID（优先使用原生 randomUUID，降级到 v4 近似实现）
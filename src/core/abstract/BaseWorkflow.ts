@@ -1,5 +1,6 @@
 import { BaseNode } from './BaseNode';
-import type { NodeExecutionContext, NodeExecutionResult } from './BaseNode';
+import type { NodeExecutionResult } from './BaseNode';
+import { WorkflowRunner } from '../engine/WorkflowRunner';
 
 // 工作流连接定义
 export interface WorkflowConnection {
@@ -7,13 +8,50 @@ export interface WorkflowConnection {
   sourceNodeId: string;
   targetNodeId: string;
   // 可选分支索引：当一个节点可以有多个“链接”时，用于区分第几个分支（默认 0）
+  // ERROR_BRANCH_INDEX（-1）为错误分支，仅在源节点失败时激活
   branchIndex?: number;
+  // 回边（指向上游、构成环路的连接）最多被走过的次数，覆盖工作流配置中的 maxIterations
+  maxIterations?: number;
+}
+
+// 工作流输入参数的类型
+export type WorkflowInputType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+// 工作流输入参数声明，运行时通过 {{$workflow.input.name}} 读取
+export interface WorkflowInputDefinition {
+  name: string;
+  type: WorkflowInputType;
+  required?: boolean;
+  default?: unknown;      // 未提供该参数时使用
+  description?: string;
+}
+
+/**
+ * 环境配置（如 dev / staging / prod）
+ * 同一份工作流在不同环境使用不同的地址与账号：values 通过 {{$env.name}} 读取，
+ * overrides 按节点 id 覆盖任意设置（键为设置路径，如 url、headers.X-Store、credentialId，值可含表达式）
+ */
+export interface WorkflowEnvironment {
+  name: string;
+  values: Record<string, unknown>;
+  overrides?: Record<string, Record<string, unknown>>;
 }
 
 // 工作流配置
 export interface WorkflowConfig {
   id: string;
   name: string;
+  // 相互独立的分支可同时执行的节点数上限
+  maxConcurrency?: number;
+  // 每条回边默认最多被走过的次数；环路上的回边与工作流都未设置时视为非法环路
+  maxIterations?: number;
+  // 输入参数声明：运行前校验并填充默认值，入口节点以其作为输入
+  inputs?: WorkflowInputDefinition[];
+  // 输出映射：输出名 → 表达式（如 {{$result.nodeId.field}}），运行完成后求值为工作流的返回值
+  outputs?: Record<string, string>;
+  // 环境配置；运行时按名称选择，未选择时使用 defaultEnvironment
+  environments?: WorkflowEnvironment[];
+  defaultEnvironment?: string;
 }
 
 // 抽象工作流基类
@@ -36,66 +74,12 @@ export class BaseWorkflow {
     this.connections.set(connection.id, connection);
   }
 
-  // 执行工作流
-  public async execute(): Promise<Map<string, NodeExecutionResult>> {
-    const results = new Map<string, NodeExecutionResult>();
-    const context: NodeExecutionContext = {
-      workflowId: this.config.id,
-      nodeId: '',
-      previousResults: new Map()
-    };
-
-    // 简单顺序执行所有节点
-    for (const [nodeId, node] of this.nodes) {
-      context.nodeId = nodeId;
-      
-      // 收集输入数据
-      const inputs = this.collectNodeInputs(nodeId, context);
-      
-      // 解析动态设置
-      this.resolveNodeSettings(nodeId, inputs, context);
-      
-      // 执行节点
-      const result = await node.execute(inputs, context);
-      results.set(nodeId, result);
-      
-      // 保存结果供后续节点使用
-      if (result.success && result.data) {
-        context.previousResults.set(nodeId, result.data);
-      }
-    }
-
+  // 执行工作流：委托给 WorkflowRunner，与画布执行保持一致的语义；inputs 按 config.inputs 校验，environment 为环境名称
+  public async execute(
+    options: { signal?: AbortSignal; inputs?: Record<string, unknown>; environment?: string } = {}
+  ): Promise<Map<string, NodeExecutionResult>> {
+    const { signal, inputs, environment } = options;
+    const { results } = await new WorkflowRunner(this, { signal, inputs, environment }).run();
     return results;
   }
-
-  // 收集节点输入数据
-  private collectNodeInputs(nodeId: string, context: NodeExecutionContext): Record<string, unknown> {
-    const inputs: Record<string, unknown> = {};
-    
-    // 查找指向此节点的连接
-    for (const connection of this.connections.values()) {
-      if (connection.targetNodeId === nodeId) {
-        const sourceData = context.previousResults.get(connection.sourceNodeId);
-        if (sourceData) {
-          Object.assign(inputs, sourceData);
-        }
-      }
-    }
-    
-    return inputs;
-  }
-
-  // 解析节点的动态设置
-  private resolveNodeSettings(nodeId: string, inputs: Record<string, unknown>, context: NodeExecutionContext): void {
-    const node = this.nodes.get(nodeId);
-    if (!node) return;
-
-    // 调用节点的动态设置解析方法
-    try {
-      const resolvedSettings = node.resolveDynamicSettings(inputs, context);
-      node.settings = resolvedSettings;
-    } catch (error) {
-      console.warn(`Failed to resolve dynamic settings for node ${nodeId}:`, error);
-    }
-  }
 }
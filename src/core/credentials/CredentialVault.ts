@@ -0,0 +1,442 @@
+import {
+  CredentialError,
+  CredentialUtils,
+  type Credential,
+  type CredentialAuth,
+  type CredentialInput,
+  type CredentialSummary
+} from './Credentials';
+
+/**
+ * 凭证存储后端
+ * 只读写加密后的密文，明文凭证不会离开 CredentialVault
+ */
+export interface CredentialStorageBackend {
+  read(): Promise<string | null>;
+  write(data: string): Promise<void>;
+}
+
+// 后端与密钥文件用到的文件系统接口（node:fs/promises 的子集，可注入以便测试）
+export interface CredentialFileSystem {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string, options: { mode: number }): Promise<void>;
+}
+
+// 提供加密密钥（AES-GCM 256 位）
+export type CredentialKeyProvider = () => Promise<CryptoKey>;
+
+// 前端构建不应打包 node:fs，通过变量动态导入
+const NODE_FS_MODULE = 'node:fs/promises';
+
+// 凭证文件与密钥文件仅所有者可读写
+const PRIVATE_FILE_MODE = 0o600;
+
+// 访问令牌在过期前提前刷新的时间（毫秒）
+const TOKEN_EXPIRY_MARGIN = 60_000;
+
+// 脱敏后的占位文本
+export const REDACTED = '[REDACTED]';
+
+async function loadNodeFileSystem(): Promise<CredentialFileSystem> {
+  return await import(/* @vite-ignore */ NODE_FS_MODULE) as CredentialFileSystem;
+}
+
+function isFileNotFound(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'ENOENT';
+}
+
+// 内存后端（测试用，进程退出即丢失）
+export class MemoryCredentialBackend implements CredentialStorageBackend {
+  private data: string | null = null;
+
+  public async read(): Promise<string | null> {
+    return this.data;
+  }
+
+  public async write(data: string): Promise<void> {
+    this.data = data;
+  }
+}
+
+// 浏览器 localStorage 后端
+export class LocalStorageCredentialBackend implements CredentialStorageBackend {
+  private readonly key: string;
+
+  constructor(key = 'workflow-credentials') {
+    this.key = key;
+  }
+
+  public async read(): Promise<string | null> {
+    return localStorage.getItem(this.key);
+  }
+
+  public async write(data: string): Promise<void> {
+    localStorage.setItem(this.key, data);
+  }
+}
+
+// 本地文件后端（服务端）：文件权限为 0600
+export class FileCredentialBackend implements CredentialStorageBackend {
+  private readonly path: string;
+  private readonly fs?: CredentialFileSystem;
+
+  constructor(path: string, fs?: CredentialFileSystem) {
+    this.path = path;
+    this.fs = fs;
+  }
+
+  public async read(): Promise<string | null> {
+    const fs = this.fs ?? await loadNodeFileSystem();
+    try {
+      return await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if (isFileNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  public async write(data: string): Promise<void> {
+    const fs = this.fs ?? await loadNodeFileSystem();
+    await fs.writeFile(this.path, data, { mode: PRIVATE_FILE_MODE });
+  }
+}
+
+// 落盘的加密格式
+interface EncryptedCredentialFile {
+  version: 1;
+  algorithm: 'AES-GCM';
+  iv: string;
+  data: string;
+}
+
+// 凭证加密工具类
+export class CredentialCrypto {
+  static toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary);
+  }
+
+  static fromBase64(value: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  }
+
+  /**
+   * 生成新的密钥（base64 编码的 32 字节随机数）
+   */
+  static generateKey(): string {
+    return this.toBase64(crypto.getRandomValues(new Uint8Array(32)));
+  }
+
+  /**
+   * 导入 base64 编码的密钥
+   */
+  static async importKey(base64Key: string): Promise<CryptoKey> {
+    const raw = this.fromBase64(base64Key.trim());
+    if (raw.length !== 32) {
+      throw new CredentialError('Credential key must be 32 bytes (base64 encoded)');
+    }
+    return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+
+  /**
+   * 固定密钥（如来自环境变量 WORKFLOW_CREDENTIALS_KEY）
+   */
+  static fromKey(base64Key: string): CredentialKeyProvider {
+    return () => this.importKey(base64Key);
+  }
+
+  /**
+   * 密钥文件：文件不存在时生成新密钥并以 0600 权限写入
+   * 密钥文件应与凭证文件分开存放，且不要提交到版本库
+   */
+  static fromKeyfile(path: string, fs?: CredentialFileSystem): CredentialKeyProvider {
+    return async () => {
+      const fileSystem = fs ?? await loadNodeFileSystem();
+      let key: string;
+      try {
+        key = await fileSystem.readFile(path, 'utf8');
+      } catch (error) {
+        if (!isFileNotFound(error)) throw error;
+        key = this.generateKey();
+        await fileSystem.writeFile(path, key, { mode: PRIVATE_FILE_MODE });
+      }
+      return this.importKey(key);
+    };
+  }
+
+  static async encrypt(plaintext: string, key: CryptoKey): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+    const file: EncryptedCredentialFile = {
+      version: 1,
+      algorithm: 'AES-GCM',
+      iv: this.toBase64(iv),
+      data: this.toBase64(new Uint8Array(ciphertext))
+    };
+    return JSON.stringify(file);
+  }
+
+  static async decrypt(content: string, key: CryptoKey): Promise<string> {
+    const file = JSON.parse(content) as Partial<EncryptedCredentialFile>;
+    if (file.version !== 1 || file.algorithm !== 'AES-GCM' || !file.iv || !file.data) {
+      throw new CredentialError('Unsupported credential file format');
+    }
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: this.fromBase64(file.iv) },
+        key,
+        this.fromBase64(file.data)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      throw new CredentialError('Failed to decrypt credentials (wrong key or corrupted file)');
+    }
+  }
+}
+
+// 构造凭证保险库的选项
+export interface CredentialVaultOptions {
+  backend: CredentialStorageBackend;
+  key: CredentialKeyProvider;
+  // OAuth2 令牌请求使用的 fetch（默认全局 fetch）
+  fetch?: typeof fetch;
+}
+
+// 缓存的 OAuth2 访问令牌
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+/**
+ * 凭证保险库
+ * 凭证整体加密后交给存储后端保存，节点设置中只保存凭证 id（如 HTTP 节点的 credentialId）
+ * 节点执行时通过 NodeExecutionContext.credentials 解析为请求头与查询参数；
+ * 解析过的机密会被记录，执行引擎据此把节点结果与错误中出现的机密替换为 [REDACTED]
+ */
+export class CredentialVault {
+  private readonly backend: CredentialStorageBackend;
+  private readonly keyProvider: CredentialKeyProvider;
+  private readonly fetchImpl?: typeof fetch;
+  private key?: Promise<CryptoKey>;
+  private cache?: Credential[];
+  // 串行化读写，避免并发保存相互覆盖
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly tokens = new Map<string, CachedToken>();
+  private readonly secrets = new Set<string>();
+
+  constructor(options: CredentialVaultOptions) {
+    this.backend = options.backend;
+    this.keyProvider = options.key;
+    this.fetchImpl = options.fetch;
+  }
+
+  /**
+   * 本地文件保险库：凭证文件加密保存，密钥来自单独的密钥文件
+   */
+  static local(path: string, keyfilePath: string, fs?: CredentialFileSystem): CredentialVault {
+    return new CredentialVault({
+      backend: new FileCredentialBackend(path, fs),
+      key: CredentialCrypto.fromKeyfile(keyfilePath, fs)
+    });
+  }
+
+  // 列出凭证（不含机密）
+  public async list(): Promise<CredentialSummary[]> {
+    const credentials = await this.load();
+    return credentials.map(credential => CredentialUtils.summarize(credential));
+  }
+
+  public async has(id: string): Promise<boolean> {
+    const credentials = await this.load();
+    return credentials.some(credential => credential.id === id);
+  }
+
+  // 读取完整凭证（含机密），仅供节点与管理界面使用
+  public async get(id: string): Promise<Credential> {
+    const credentials = await this.load();
+    const credential = credentials.find(c => c.id === id);
+    if (!credential) {
+      throw new CredentialError(`Credential ${id} not found`);
+    }
+    return structuredClone(credential);
+  }
+
+  // 新建或更新凭证，返回不含机密的摘要
+  public async save(input: CredentialInput): Promise<CredentialSummary> {
+    const errors = CredentialUtils.validate(input);
+    if (errors.length > 0) {
+      throw new CredentialError(`Invalid credential: ${errors.join(', ')}`);
+    }
+    return this.enqueue(async () => {
+      const credentials = await this.load();
+      const now = new Date().toISOString();
+      const id = input.id || crypto.randomUUID();
+      const existing = credentials.find(c => c.id === id);
+      const credential = {
+        id,
+        name: input.name,
+        kind: input.kind,
+        data: structuredClone(input.data),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now
+      } as Credential;
+      const next = existing
+        ? credentials.map(c => (c.id === id ? credential : c))
+        : [...credentials, credential];
+      await this.persist(next);
+      this.tokens.delete(id);
+      return CredentialUtils.summarize(credential);
+    });
+  }
+
+  // 删除凭证，返回是否存在
+  public async delete(id: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      const credentials = await this.load();
+      const next = credentials.filter(c => c.id !== id);
+      if (next.length === credentials.length) return false;
+      await this.persist(next);
+      this.tokens.delete(id);
+      return true;
+    });
+  }
+
+  /**
+   * 把凭证解析为请求认证信息（OAuth2 客户端凭证会按需获取并缓存访问令牌）
+   */
+  public async resolveAuth(id: string, signal?: AbortSignal): Promise<CredentialAuth> {
+    const credential = await this.get(id);
+    CredentialUtils.getSecrets(credential).forEach(secret => this.secrets.add(secret));
+
+    const auth: CredentialAuth = { headers: {}, query: {} };
+    switch (credential.kind) {
+      case 'apiKey': {
+        const { key, in: placement = 'header', name } = credential.data;
+        if (placement === 'query') {
+          auth.query[name || 'api_key'] = key;
+        } else {
+          auth.headers[name || 'X-API-Key'] = key;
+        }
+        break;
+      }
+      case 'basic':
+        auth.headers.Authorization = `Basic ${CredentialUtils.encodeBasic(credential.data.username, credential.data.password)}`;
+        break;
+      case 'bearer':
+        auth.headers.Authorization = `Bearer ${credential.data.token}`;
+        break;
+      case 'oauth2Client':
+        auth.headers.Authorization = `Bearer ${await this.getAccessToken(credential, signal)}`;
+        break;
+    }
+    Object.values(auth.headers).forEach(value => this.secrets.add(value));
+    return auth;
+  }
+
+  /**
+   * 把值中出现的已解析机密替换为 [REDACTED]（只处理字符串、数组与普通对象）
+   */
+  public redact<T>(value: T): T {
+    if (this.secrets.size === 0) return value;
+    return this.redactValue(value, new WeakSet()) as T;
+  }
+
+  private redactValue(value: unknown, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      let result = value;
+      for (const secret of this.secrets) {
+        if (secret && result.includes(secret)) result = result.split(secret).join(REDACTED);
+      }
+      return result;
+    }
+    if (Array.isArray(value)) {
+      if (seen.has(value)) return value;
+      seen.add(value);
+      return value.map(item => this.redactValue(item, seen));
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      if (seen.has(value)) return value;
+      seen.add(value);
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactValue(item, seen)])
+      );
+    }
+    return value;
+  }
+
+  private async getAccessToken(
+    credential: Extract<Credential, { kind: 'oauth2Client' }>,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const cached = this.tokens.get(credential.id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.accessToken;
+    }
+
+    const { clientId, clientSecret, tokenUrl, scope } = credential.data;
+    const body = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (scope) body.set('scope', scope);
+    const response = await (this.fetchImpl ?? fetch)(tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Basic ${CredentialUtils.encodeBasic(clientId, clientSecret)}`
+      },
+      body: body.toString(),
+      signal
+    });
+    if (!response.ok) {
+      throw new CredentialError(`Failed to obtain access token for credential ${credential.id}: HTTP ${response.status}`);
+    }
+    const token = await response.json() as { access_token?: string; expires_in?: number };
+    if (!token.access_token) {
+      throw new CredentialError(`Token response for credential ${credential.id} has no access_token`);
+    }
+    this.secrets.add(token.access_token);
+    if (token.expires_in) {
+      this.tokens.set(credential.id, {
+        accessToken: token.access_token,
+        expiresAt: Date.now() + token.expires_in * 1000 - TOKEN_EXPIRY_MARGIN
+      });
+    }
+    return token.access_token;
+  }
+
+  private async getKey(): Promise<CryptoKey> {
+    this.key ??= this.keyProvider().catch(error => {
+      this.key = undefined;
+      throw error;
+    });
+    return this.key;
+  }
+
+  private async load(): Promise<Credential[]> {
+    if (this.cache) return this.cache;
+    const content = await this.backend.read();
+    if (!content) {
+      this.cache = [];
+      return this.cache;
+    }
+    const plaintext = await CredentialCrypto.decrypt(content, await this.getKey());
+    const parsed = JSON.parse(plaintext) as { credentials?: Credential[] };
+    this.cache = parsed.credentials ?? [];
+    return this.cache;
+  }
+
+  private async persist(credentials: Credential[]): Promise<void> {
+    const content = await CredentialCrypto.encrypt(JSON.stringify({ credentials }), await this.getKey());
+    await this.backend.write(content);
+    this.cache = credentials;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,130 @@
+// API Key：放在请求头（默认 X-API-Key）或查询参数（默认 api_key）
+export interface ApiKeyCredentialData {
+  key: string;
+  in?: 'header' | 'query';
+  name?: string;
+}
+
+// HTTP Basic 认证
+export interface BasicCredentialData {
+  username: string;
+  password: string;
+}
+
+// Bearer Token
+export interface BearerCredentialData {
+  token: string;
+}
+
+// OAuth2 客户端凭证（client_credentials 授权），访问令牌由保险库按需获取并缓存
+export interface OAuth2ClientCredentialData {
+  clientId: string;
+  clientSecret: string;
+  tokenUrl: string;
+  scope?: string;
+}
+
+export type CredentialKind = 'apiKey' | 'basic' | 'bearer' | 'oauth2Client';
+
+// 凭证中不含机密的部分，可在界面与日志中展示
+export interface CredentialSummary {
+  id: string;
+  name: string;
+  kind: CredentialKind;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type Credential = CredentialSummary & (
+  | { kind: 'apiKey'; data: ApiKeyCredentialData }
+  | { kind: 'basic'; data: BasicCredentialData }
+  | { kind: 'bearer'; data: BearerCredentialData }
+  | { kind: 'oauth2Client'; data: OAuth2ClientCredentialData }
+);
+
+// 新建或更新凭证时的输入（id 缺省时自动生成）
+export type CredentialInput = Pick<Credential, 'name' | 'kind' | 'data'> & { id?: string };
+
+// 凭证解析为请求认证信息：合并到 HTTP 请求的请求头与查询参数
+export interface CredentialAuth {
+  headers: Record<string, string>;
+  query: Record<string, string>;
+}
+
+// 凭证不存在、数据不合法或获取令牌失败
+export class CredentialError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialError';
+  }
+}
+
+// 各类凭证的必填字段
+const REQUIRED_FIELDS: Record<CredentialKind, string[]> = {
+  apiKey: ['key'],
+  basic: ['username', 'password'],
+  bearer: ['token'],
+  oauth2Client: ['clientId', 'clientSecret', 'tokenUrl']
+};
+
+// 凭证工具类
+export class CredentialUtils {
+  /**
+   * 验证凭证输入（类型合法、必填字段为非空字符串）
+   */
+  static validate(input: unknown): string[] {
+    if (!input || typeof input !== 'object') {
+      return ['Credential must be an object'];
+    }
+    const obj = input as Record<string, unknown>;
+    const errors: string[] = [];
+    if (!obj.name || typeof obj.name !== 'string') {
+      errors.push('Credential missing name');
+    }
+    const required = REQUIRED_FIELDS[obj.kind as CredentialKind];
+    if (!required) {
+      errors.push(`Credential has invalid kind (must be one of ${Object.keys(REQUIRED_FIELDS).join(', ')})`);
+      return errors;
+    }
+    const data = obj.data as Record<string, unknown> | undefined;
+    if (!data || typeof data !== 'object') {
+      errors.push('Credential missing data');
+      return errors;
+    }
+    for (const field of required) {
+      if (!data[field] || typeof data[field] !== 'string') {
+        errors.push(`Credential data missing ${field}`);
+      }
+    }
+    if (obj.kind === 'apiKey' && data.in !== undefined && data.in !== 'header' && data.in !== 'query') {
+      errors.push('API key credential has invalid placement (must be header or query)');
+    }
+    return errors;
+  }
+
+  // 去掉机密数据
+  static summarize(credential: Credential): CredentialSummary {
+    const { id, name, kind, createdAt, updatedAt } = credential;
+    return { id, name, kind, createdAt, updatedAt };
+  }
+
+  // 凭证中的机密字符串，用于从执行结果中脱敏
+  static getSecrets(credential: Credential): string[] {
+    switch (credential.kind) {
+      case 'apiKey':
+        return [credential.data.key];
+      case 'basic':
+        return [credential.data.password];
+      case 'bearer':
+        return [credential.data.token];
+      case 'oauth2Client':
+        return [credential.data.clientSecret];
+    }
+  }
+
+  // 编码 Basic 认证头（支持非 ASCII 字符）
+  static encodeBasic(username: string, password: string): string {
+    const bytes = new TextEncoder().encode(`${username}:${password}`);
+    return btoa(String.fromCharCode(...bytes));
+  }
+}
@@ -0,0 +1,233 @@
+// cron 表达式或时区无效
+export class CronExpressionError extends Error {
+  public readonly expression: string;
+
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`);
+    this.name = 'CronExpressionError';
+    this.expression = expression;
+  }
+}
+
+// 某一时区下的墙上时间
+interface ZonedFields {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0-6，0 为星期日
+}
+
+// 字段取值范围与可用名称
+interface CronFieldSpec {
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELD_SPECS: CronFieldSpec[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+const ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// 查找下一次时间时的最大跳转次数（如 2 月 30 日这类永远不会到达的表达式）
+const MAX_SEARCH_STEPS = 10000;
+
+/**
+ * 五段式 cron 表达式（分 时 日 月 周），按指定时区的墙上时间匹配
+ * 支持 *、列表、范围、步长（如 0/15、1-5/2）、月份与星期名称（JAN、MON）以及 @daily 等别名；
+ * 日与周都受限制时满足其一即可（与标准 cron 一致）。夏令时跳过的时刻当天不触发；
+ * 回拨时重复的一小时内，小时受限制的表达式（如 30 1 * * *）只在第一次出现时触发，其余（如 0 * * * *）照常按实际时间触发
+ */
+export class CronExpression {
+  public readonly expression: string;
+  public readonly timezone: string;
+  private readonly minutes: Set<number>;
+  private readonly hours: Set<number>;
+  private readonly days: Set<number>;
+  private readonly months: Set<number>;
+  private readonly weekdays: Set<number>;
+  private readonly dayRestricted: boolean;
+  private readonly weekdayRestricted: boolean;
+  private readonly hourRestricted: boolean;
+  private readonly formatter: Intl.DateTimeFormat;
+
+  private constructor(expression: string, timezone: string) {
+    this.expression = expression;
+    this.timezone = timezone;
+
+    const source = ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+    const fields = source.split(/\s+/);
+    if (fields.length !== 5) {
+      throw new CronExpressionError(expression, `expected 5 fields, got ${fields.length}`);
+    }
+    const [minutes, hours, days, months, weekdays] = fields.map((field, i) =>
+      CronExpression.parseField(expression, field, FIELD_SPECS[i])
+    );
+    this.minutes = minutes;
+    this.hours = hours;
+    this.days = days;
+    this.months = months;
+    // 7 与 0 都表示星期日
+    this.weekdays = new Set([...weekdays].map(day => day % 7));
+    this.dayRestricted = fields[2] !== '*' && fields[2] !== '?';
+    this.weekdayRestricted = fields[4] !== '*' && fields[4] !== '?';
+    this.hourRestricted = fields[1] !== '*';
+
+    try {
+      this.formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        weekday: 'short'
+      });
+    } catch {
+      throw new CronExpressionError(expression, `unknown timezone "${timezone}"`);
+    }
+  }
+
+  /**
+   * 解析表达式；timezone 为 IANA 时区名称（如 Asia/Shanghai），缺省为运行环境的本地时区
+   */
+  static parse(expression: string, timezone?: string): CronExpression {
+    return new CronExpression(expression, timezone || Intl.DateTimeFormat().resolvedOptions().timeZone);
+  }
+
+  /**
+   * 严格晚于 after（毫秒时间戳）的下一次触发时间；表达式永远不会到达时返回 undefined
+   */
+  public next(after: number): number | undefined {
+    let time = Math.floor(after / 60000) * 60000 + 60000;
+    for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+      const f = this.getZonedFields(time);
+      // 不匹配时跳到下一个月 / 日的起点（按墙上时间计算后换算回时间戳）；时与分按实际时间前进，不会跳过回拨重复的一小时
+      let target: number;
+      if (!this.months.has(f.month)) {
+        target = this.toTimestamp(f.year, f.month + 1, 1, 0, 0);
+      } else if (!this.matchesDay(f)) {
+        target = this.toTimestamp(f.year, f.month, f.day + 1, 0, 0);
+      } else if (!this.hours.has(f.hour)) {
+        target = time + (60 - f.minute) * 60000;
+      } else if (!this.minutes.has(f.minute) || (this.hourRestricted && this.isRepeatedWallTime(time))) {
+        target = time + 60000;
+      } else {
+        return time;
+      }
+      // 夏令时回拨时换算结果可能不前进，至少前进一分钟
+      time = Math.max(target, time + 60000);
+    }
+    return undefined;
+  }
+
+  private matchesDay(f: ZonedFields): boolean {
+    const day = this.days.has(f.day);
+    const weekday = this.weekdays.has(f.weekday);
+    if (this.dayRestricted && this.weekdayRestricted) return day || weekday;
+    return day && weekday;
+  }
+
+  // 该时刻的墙上时间在一天内是否已出现过（夏令时回拨后重复的一小时）
+  private isRepeatedWallTime(time: number): boolean {
+    const shift = this.getOffset(time - 86400000) - this.getOffset(time);
+    if (shift <= 0) return false;
+    const earlier = this.getZonedFields(time - shift);
+    const current = this.getZonedFields(time);
+    return earlier.day === current.day && earlier.hour === current.hour && earlier.minute === current.minute;
+  }
+
+  // 时间戳在本时区的墙上时间
+  private getZonedFields(time: number): ZonedFields {
+    const parts: Record<string, string> = {};
+    for (const part of this.formatter.formatToParts(time)) {
+      parts[part.type] = part.value;
+    }
+    return {
+      year: Number(parts.year),
+      month: Number(parts.month),
+      day: Number(parts.day),
+      hour: Number(parts.hour),
+      minute: Number(parts.minute),
+      weekday: WEEKDAYS.indexOf(parts.weekday)
+    };
+  }
+
+  // 墙上时间换算为时间戳（字段可溢出，如 13 月即次年 1 月）
+  private toTimestamp(year: number, month: number, day: number, hour: number, minute: number): number {
+    const wall = Date.UTC(year, month - 1, day, hour, minute);
+    let time = wall - this.getOffset(wall);
+    // 换算后所在时刻的偏移与猜测不同（跨越夏令时切换）时再修正一次
+    const offset = this.getOffset(time);
+    if (wall - offset !== time) {
+      time = wall - offset;
+    }
+    return time;
+  }
+
+  // 时区相对 UTC 的偏移（毫秒）
+  private getOffset(time: number): number {
+    const f = this.getZonedFields(time);
+    const wall = Date.UTC(f.year, f.month - 1, f.day, f.hour, f.minute);
+    return wall - Math.floor(time / 60000) * 60000;
+  }
+
+  // 解析单个字段为允许的取值集合
+  private static parseField(expression: string, field: string, spec: CronFieldSpec): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+      const [range, stepText] = part.split('/');
+      const step = stepText === undefined ? 1 : Number(stepText);
+      if (!Number.isInteger(step) || step < 1) {
+        throw new CronExpressionError(expression, `invalid step in "${part}"`);
+      }
+
+      let start: number;
+      let end: number;
+      if (range === '*' || range === '?') {
+        start = spec.min;
+        end = spec.max;
+      } else {
+        const [from, to] = range.split('-');
+        start = this.parseValue(expression, from, spec);
+        // a/n 表示从 a 开始到最大值
+        end = to !== undefined ? this.parseValue(expression, to, spec) : stepText !== undefined ? spec.max : start;
+      }
+      if (start > end) {
+        throw new CronExpressionError(expression, `invalid range "${part}"`);
+      }
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+    return values;
+  }
+
+  private static parseValue(expression: string, text: string | undefined, spec: CronFieldSpec): number {
+    const upper = (text ?? '').toUpperCase();
+    const nameIndex = spec.names?.indexOf(upper) ?? -1;
+    const value = nameIndex >= 0 ? nameIndex + spec.min : /^\d+$/.test(upper) ? Number(upper) : NaN;
+    if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+      throw new CronExpressionError(expression, `value "${text}" out of range ${spec.min}-${spec.max}`);
+    }
+    return value;
+  }
+}
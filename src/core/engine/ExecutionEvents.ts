@@ -0,0 +1,168 @@
+import type { NodeExecutionResult } from '../abstract/BaseNode';
+import type { ToolExecutionResult } from '../types/Tool';
+import type { ExecutionSnapshot } from './ExecutionSnapshot';
+import type { WorkflowRunStatus } from './WorkflowRunner';
+
+// 执行事件及其负载（时间均为毫秒时间戳，duration 为毫秒）
+export interface ExecutionEvents {
+  executionStarted: {
+    workflowId: string;
+    startTime: number;
+    // 从快照恢复的运行
+    resumed: boolean;
+    // 解析后的运行参数
+    inputs: Record<string, unknown>;
+    // 所选环境的名称
+    environment?: string;
+  };
+  executionFinished: {
+    workflowId: string;
+    status: WorkflowRunStatus;
+    startTime: number;
+    endTime: number;
+    duration: number;
+    failedNodeId?: string;
+    error?: Error;
+    // 工作流输出（见 WorkflowRunResult.outputs）
+    outputs?: Record<string, unknown>;
+  };
+  nodeStarted: {
+    nodeId: string;
+    startTime: number;
+  };
+  // 节点结束（成功或失败），UI 据此更新状态
+  nodeFinished: {
+    nodeId: string;
+    result: NodeExecutionResult;
+    startTime: number;
+    endTime: number;
+    // 节点收到的输入与解析表达式后的设置（从检查点恢复的节点没有）
+    inputs?: Record<string, unknown>;
+    settings?: Record<string, unknown>;
+    // 结果来自快照检查点，本次运行未重新执行
+    restored?: boolean;
+    // 结果为节点的固定输出，未调用 execute
+    pinned?: boolean;
+  };
+  nodeSucceeded: {
+    nodeId: string;
+    data: unknown;
+    startTime: number;
+    endTime: number;
+    duration: number;
+    restored?: boolean;
+    pinned?: boolean;
+  };
+  nodeFailed: {
+    nodeId: string;
+    error: Error;
+    startTime: number;
+    endTime: number;
+    duration: number;
+    // 失败已由错误分支处理，工作流继续执行
+    handled: boolean;
+  };
+  // 节点完成后激活的分支及其目标节点
+  branchSelected: {
+    nodeId: string;
+    branchIndex: number;
+    // 输出项分流到多个分支时的全部分支（branchIndex 为首项所选的分支）
+    branchIndexes?: number[];
+    targetNodeIds: string[];
+    connectionIds: string[];
+  };
+  // 节点按重试策略等待下一次尝试
+  nodeRetrying: {
+    nodeId: string;
+    attempt: number;     // 即将进行的第几次尝试（从 2 开始）
+    maxAttempts: number;
+    delay: number;
+    error?: Error;
+  };
+  // 节点（如 Agent）通过 ToolManager 调用工具
+  toolCalled: {
+    nodeId: string;
+    toolId: string;
+    input: unknown;
+    result: ToolExecutionResult;
+    startTime: number;
+    endTime: number;
+    duration: number;
+  };
+  // 节点完成后生成的最新快照，可用于持久化
+  checkpoint: {
+    nodeId: string;
+    snapshot: ExecutionSnapshot;
+  };
+  // 调试器在节点执行前停下：输入项与解析后的 settings 供查看，可编辑 inputs 或 items 后继续
+  breakpointHit: {
+    nodeId: string;
+    // 首个输入项的 json（即节点的 inputs）
+    inputs: Record<string, unknown>;
+    // 全部输入项的 json
+    items: Record<string, unknown>[];
+    settings: Record<string, unknown>;
+    // 因单步执行而非断点停下
+    stepping: boolean;
+  };
+  // 暂停生效：在执行中的节点均已结束，调度停止
+  paused: {
+    pendingNodeIds: string[];
+  };
+  resumed: Record<string, never>;
+}
+
+export type ExecutionEventName = keyof ExecutionEvents;
+export type ExecutionEventListener<K extends ExecutionEventName> = (payload: ExecutionEvents[K]) => void;
+
+/**
+ * 类型化的执行事件总线
+ * 运行器与节点只负责发布事件；UI、日志、指标与持久化各自订阅，互不影响
+ */
+export class ExecutionEventBus {
+  private readonly listeners = new Map<ExecutionEventName, Set<(payload: never) => void>>();
+
+  // 订阅事件，返回取消订阅函数
+  public on<K extends ExecutionEventName>(event: K, listener: ExecutionEventListener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as (payload: never) => void);
+    return () => {
+      set.delete(listener as (payload: never) => void);
+    };
+  }
+
+  // 只触发一次的订阅
+  public once<K extends ExecutionEventName>(event: K, listener: ExecutionEventListener<K>): () => void {
+    const off = this.on(event, payload => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  // 发布事件：监听器抛出的错误只记录，不影响执行
+  public emit<K extends ExecutionEventName>(event: K, payload: ExecutionEvents[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+    for (const listener of [...set]) {
+      try {
+        (listener as ExecutionEventListener<K>)(payload);
+      } catch (error) {
+        console.warn(`Execution event listener for "${event}" threw:`, error);
+      }
+    }
+  }
+
+  // 移除某个事件（或全部事件）的监听器
+  public clear(event?: ExecutionEventName): void {
+    if (event) {
+      this.listeners.delete(event);
+    } else {
+      this.listeners.clear();
+    }
+  }
+}
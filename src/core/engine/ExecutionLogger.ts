@@ -0,0 +1,53 @@
+import type { ExecutionEventBus } from './ExecutionEvents';
+
+// 日志输出目标（默认 console）
+export interface ExecutionLogSink {
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+/**
+ * 执行日志订阅者
+ * 将事件总线上的执行事件输出为统一格式的日志，替代散落在各处的 console 调用
+ */
+export class ExecutionLogger {
+  // 订阅事件总线，返回取消订阅函数
+  static attach(bus: ExecutionEventBus, sink: ExecutionLogSink = console): () => void {
+    const subscriptions = [
+      bus.on('executionStarted', ({ workflowId, resumed, environment }) => {
+        const where = environment ? ` (environment: ${environment})` : '';
+        sink.info(`[workflow ${workflowId}] ${resumed ? 'resumed from snapshot' : 'started'}${where}`);
+      }),
+      bus.on('nodeStarted', ({ nodeId }) => {
+        sink.info(`[node ${nodeId}] started`);
+      }),
+      bus.on('nodeSucceeded', ({ nodeId, duration, restored, pinned }) => {
+        const outcome = restored ? 'restored from checkpoint' : pinned ? 'returned pinned data' : `succeeded in ${duration}ms`;
+        sink.info(`[node ${nodeId}] ${outcome}`);
+      }),
+      bus.on('nodeFailed', ({ nodeId, error, handled }) => {
+        const log = handled ? sink.warn : sink.error;
+        log(`[node ${nodeId}] failed${handled ? ' (routed to error branch)' : ''}:`, error.message);
+      }),
+      bus.on('nodeRetrying', ({ nodeId, attempt, maxAttempts, delay, error }) => {
+        sink.warn(`[node ${nodeId}] retrying (${attempt}/${maxAttempts}) in ${delay}ms:`, error?.message);
+      }),
+      bus.on('branchSelected', ({ nodeId, branchIndex, targetNodeIds }) => {
+        sink.info(`[node ${nodeId}] branch ${branchIndex} -> ${targetNodeIds.join(', ') || '(none)'}`);
+      }),
+      bus.on('breakpointHit', ({ nodeId, stepping }) => {
+        sink.info(`[node ${nodeId}] halted ${stepping ? 'for step' : 'at breakpoint'}`);
+      }),
+      bus.on('toolCalled', ({ nodeId, toolId, result, duration }) => {
+        sink.info(`[node ${nodeId}] tool ${toolId} ${result.success ? 'succeeded' : 'failed'} in ${duration}ms`);
+      }),
+      bus.on('executionFinished', ({ workflowId, status, duration, error }) => {
+        const log = status === 'failed' ? sink.error : sink.info;
+        log(`[workflow ${workflowId}] ${status} in ${duration}ms`, ...(error ? [error.message] : []));
+      })
+    ];
+
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }
+}
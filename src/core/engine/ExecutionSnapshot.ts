@@ -0,0 +1,85 @@
+import type { NodeItem } from './NodeItems';
+
+// 单个已完成节点的检查点
+export interface NodeCheckpoint {
+  // 节点输出（即 $result.nodeId）
+  data?: unknown;
+  // 节点完成时选择的分支，恢复时据此重新激活出边
+  branchIndex: number;
+  // 按分支索引分组的输出项；缺省时由 data 还原为 branchIndex 分支上的项
+  items?: Record<string, NodeItem[]>;
+  startTime: number;
+  endTime: number;
+}
+
+export type ExecutionSnapshotStatus = 'running' | 'paused' | 'completed' | 'failed' | 'aborted';
+
+/**
+ * 可序列化的执行快照
+ * 记录每个已完成节点的输出，失败后可交给新的 WorkflowRunner 从失败节点继续执行
+ */
+export interface ExecutionSnapshot {
+  version: 1;
+  workflowId: string;
+  status: ExecutionSnapshotStatus;
+  checkpoints: Record<string, NodeCheckpoint>;
+  failedNodeId?: string;
+  error?: string;
+  // 运行变量，以及本次运行修改过的静态变量（尚未保存），恢复时还原
+  variables?: Record<string, unknown>;
+  staticVariables?: Record<string, unknown>;
+  // 运行所用的环境名称，恢复时沿用
+  environment?: string;
+  updatedAt: string;
+}
+
+// 快照工具类
+export class ExecutionSnapshotUtils {
+  /**
+   * 序列化快照（节点输出中的 Map 等非 JSON 值会按 JSON.stringify 规则丢失）
+   */
+  static toJSONString(snapshot: ExecutionSnapshot): string {
+    return JSON.stringify(snapshot);
+  }
+
+  /**
+   * 从 JSON 字符串解析快照
+   */
+  static fromJSONString(json: string): ExecutionSnapshot {
+    const parsed = JSON.parse(json) as unknown;
+    const errors = this.validate(parsed);
+    if (errors.length > 0) {
+      throw new Error(`Invalid execution snapshot: ${errors.join(', ')}`);
+    }
+    return parsed as ExecutionSnapshot;
+  }
+
+  /**
+   * 验证快照结构
+   */
+  static validate(snapshot: unknown): string[] {
+    const errors: string[] = [];
+    if (!snapshot || typeof snapshot !== 'object') {
+      return ['Snapshot must be an object'];
+    }
+
+    const obj = snapshot as Record<string, unknown>;
+    if (obj.version !== 1) {
+      errors.push(`Unsupported snapshot version: ${obj.version}`);
+    }
+    if (!obj.workflowId || typeof obj.workflowId !== 'string') {
+      errors.push('Snapshot missing workflowId');
+    }
+    if (!obj.checkpoints || typeof obj.checkpoints !== 'object') {
+      errors.push('Snapshot missing checkpoints');
+    } else {
+      for (const [nodeId, checkpoint] of Object.entries(obj.checkpoints as Record<string, unknown>)) {
+        if (!checkpoint || typeof checkpoint !== 'object' ||
+            typeof (checkpoint as Record<string, unknown>).branchIndex !== 'number') {
+          errors.push(`Checkpoint for node ${nodeId} is invalid`);
+        }
+      }
+    }
+    return errors;
+  }
+}
@@ -0,0 +1,172 @@
+import type { ExecutionEventBus } from './ExecutionEvents';
+import type { WorkflowRunStatus } from './WorkflowRunner';
+
+// 轨迹中单个节点的一次执行
+export interface ExecutionTraceStep {
+  nodeId: string;
+  status: 'completed' | 'error';
+  inputs?: Record<string, unknown>;
+  // 解析表达式后的设置
+  settings?: Record<string, unknown>;
+  output?: unknown;
+  error?: string;
+  // 节点完成后激活的分支及连接
+  branchIndex?: number;
+  connectionIds: string[];
+  startTime: number;
+  endTime: number;
+  // 结果来自快照检查点
+  restored?: boolean;
+  // 结果为节点的固定输出
+  pinned?: boolean;
+}
+
+/**
+ * 可序列化的执行轨迹
+ * 按完成顺序记录每个节点的输入、设置、输出、分支与耗时，可在画布上逐步回放
+ */
+export interface ExecutionTrace {
+  version: 1;
+  workflowId: string;
+  status: WorkflowRunStatus | 'running';
+  startTime: number;
+  endTime?: number;
+  error?: string;
+  // 运行参数与工作流输出
+  inputs?: Record<string, unknown>;
+  outputs?: Record<string, unknown>;
+  // 所选环境的名称
+  environment?: string;
+  steps: ExecutionTraceStep[];
+}
+
+/**
+ * 执行轨迹记录器
+ * 订阅事件总线，把一次运行记录为 ExecutionTrace；新的运行开始时重新记录
+ */
+export class ExecutionTraceRecorder {
+  private trace?: ExecutionTrace;
+  private readonly unsubscribe: () => void;
+
+  constructor(bus: ExecutionEventBus) {
+    const subscriptions = [
+      bus.on('executionStarted', ({ workflowId, startTime, inputs, environment }) => {
+        this.trace = {
+          version: 1,
+          workflowId,
+          status: 'running',
+          startTime,
+          inputs: ExecutionTraceUtils.toSerializable(inputs) as Record<string, unknown>,
+          environment,
+          steps: []
+        };
+      }),
+      bus.on('nodeFinished', ({ nodeId, result, startTime, endTime, inputs, settings, restored, pinned }) => {
+        this.trace?.steps.push({
+          nodeId,
+          status: result.success ? 'completed' : 'error',
+          inputs: ExecutionTraceUtils.toSerializable(inputs) as Record<string, unknown> | undefined,
+          settings: ExecutionTraceUtils.toSerializable(settings) as Record<string, unknown> | undefined,
+          output: ExecutionTraceUtils.toSerializable(result.data),
+          error: result.error?.message,
+          connectionIds: [],
+          startTime,
+          endTime,
+          restored,
+          pinned
+        });
+      }),
+      bus.on('branchSelected', ({ nodeId, branchIndex, connectionIds }) => {
+        const steps = this.trace?.steps || [];
+        const step = [...steps].reverse().find(s => s.nodeId === nodeId);
+        if (step) {
+          step.branchIndex = branchIndex;
+          step.connectionIds = [...connectionIds];
+        }
+      }),
+      bus.on('executionFinished', ({ status, endTime, error, outputs }) => {
+        if (!this.trace) return;
+        this.trace.status = status;
+        this.trace.endTime = endTime;
+        this.trace.error = error?.message;
+        this.trace.outputs = ExecutionTraceUtils.toSerializable(outputs) as Record<string, unknown> | undefined;
+      })
+    ];
+    this.unsubscribe = () => subscriptions.forEach(off => off());
+  }
+
+  // 当前（或最近一次）运行的轨迹
+  public getTrace(): ExecutionTrace | undefined {
+    return this.trace;
+  }
+
+  // 停止记录
+  public detach(): void {
+    this.unsubscribe();
+  }
+}
+
+// 轨迹工具类
+export class ExecutionTraceUtils {
+  /**
+   * 转换为可 JSON 序列化的值（Map、函数等按 JSON.stringify 规则丢失，循环引用转为字符串）
+   */
+  static toSerializable(value: unknown): unknown {
+    if (value === undefined) return undefined;
+    try {
+      return JSON.parse(JSON.stringify(value));
+    } catch {
+      return String(value);
+    }
+  }
+
+  /**
+   * 序列化轨迹
+   */
+  static toJSONString(trace: ExecutionTrace): string {
+    return JSON.stringify(trace, null, 2);
+  }
+
+  /**
+   * 从 JSON 字符串解析轨迹
+   */
+  static fromJSONString(json: string): ExecutionTrace {
+    const parsed = JSON.parse(json) as unknown;
+    const errors = this.validate(parsed);
+    if (errors.length > 0) {
+      throw new Error(`Invalid execution trace: ${errors.join(', ')}`);
+    }
+    return parsed as ExecutionTrace;
+  }
+
+  /**
+   * 验证轨迹结构
+   */
+  static validate(trace: unknown): string[] {
+    const errors: string[] = [];
+    if (!trace || typeof trace !== 'object') {
+      return ['Trace must be an object'];
+    }
+
+    const obj = trace as Record<string, unknown>;
+    if (obj.version !== 1) {
+      errors.push(`Unsupported trace version: ${obj.version}`);
+    }
+    if (!obj.workflowId || typeof obj.workflowId !== 'string') {
+      errors.push('Trace missing workflowId');
+    }
+    if (!Array.isArray(obj.steps)) {
+      errors.push('Trace missing steps');
+    } else {
+      obj.steps.forEach((step, i) => {
+        const stepObj = step as Record<string, unknown> | null;
+        if (!stepObj || typeof stepObj !== 'object' || typeof stepObj.nodeId !== 'string') {
+          errors.push(`Step at index ${i} missing nodeId`);
+        } else if (!Array.isArray(stepObj.connectionIds)) {
+          errors.push(`Step at index ${i} missing connectionIds`);
+        }
+      });
+    }
+    return errors;
+  }
+}
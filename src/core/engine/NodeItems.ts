@@ -0,0 +1,86 @@
+// 项的二进制部分：内容以 base64 保存，使项可以写入快照与轨迹
+export interface BinaryData {
+  data: string;
+  mimeType: string;
+  fileName?: string;
+  fileSize?: number;
+}
+
+/**
+ * 节点之间传递的数据项
+ * json 为结构化数据（即表达式中的 $input），binary 按属性名保存文件等二进制内容
+ */
+export interface NodeItem {
+  json: Record<string, unknown>;
+  binary?: Record<string, BinaryData>;
+  // 产生本项的输入项序号
+  pairedItem?: number;
+}
+
+// 执行模式：eachItem 对每个输入项执行一次；allItems 对全部输入项只执行一次（通过 context.items 读取）
+export type NodeExecutionMode = 'eachItem' | 'allItems';
+
+// 项工具类
+export class NodeItemUtils {
+  /**
+   * 是否为项（只含 json / binary / pairedItem，且 json 为对象）
+   */
+  static isItem(value: unknown): value is NodeItem {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+    const obj = value as Record<string, unknown>;
+    return NodeItemUtils.isRecord(obj.json) &&
+      (obj.binary === undefined || NodeItemUtils.isRecord(obj.binary)) &&
+      Object.keys(obj).every(key => key === 'json' || key === 'binary' || key === 'pairedItem');
+  }
+
+  /**
+   * 把节点输出转换为项列表：数组的每个元素为一项，其他值为单项
+   * 非对象值包装为 { value }；undefined 没有项
+   */
+  static toItems(data: unknown): NodeItem[] {
+    if (data === undefined) return [];
+    const values = Array.isArray(data) ? data : [data];
+    return values.map(value => NodeItemUtils.toItem(value));
+  }
+
+  // 单个值转换为项
+  static toItem(value: unknown): NodeItem {
+    if (NodeItemUtils.isItem(value)) return value;
+    return { json: NodeItemUtils.isRecord(value) ? value : { value } };
+  }
+
+  /**
+   * 项列表对应的节点输出（即 $result.nodeId）：单项时为其 json，否则为各项 json 组成的数组
+   */
+  static toData(items: NodeItem[]): unknown {
+    return items.length === 1 ? items[0].json : items.map(item => item.json);
+  }
+
+  /**
+   * 由字节内容创建二进制部分
+   */
+  static toBinary(bytes: Uint8Array, mimeType: string, fileName?: string): BinaryData {
+    let binary = '';
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return {
+      data: btoa(binary),
+      mimeType,
+      ...(fileName ? { fileName } : {}),
+      fileSize: bytes.length
+    };
+  }
+
+  /**
+   * 读取二进制部分的字节内容
+   */
+  static fromBinary(binaryData: BinaryData): Uint8Array<ArrayBuffer> {
+    const binary = atob(binaryData.data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+}
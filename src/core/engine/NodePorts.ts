@@ -0,0 +1,148 @@
+import { z } from 'zod';
+import { ERROR_BRANCH_INDEX, type BaseNode } from '../abstract/BaseNode';
+import type { BaseWorkflow, WorkflowConnection } from '../abstract/BaseWorkflow';
+import { SchemaUtils, type SchemaIssue } from '../utils/SchemaUtils';
+
+// 节点输入或输出不符合节点类型声明的模式
+export class NodeSchemaError extends Error {
+  public readonly nodeId: string;
+  public readonly port: 'input' | 'output';
+  public readonly issues: SchemaIssue[];
+
+  constructor(nodeId: string, port: 'input' | 'output', issues: SchemaIssue[]) {
+    const details = issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+    super(`Node ${nodeId} ${port === 'input' ? 'received invalid input' : 'produced invalid output'}: ${details.join('; ')}`);
+    this.name = 'NodeSchemaError';
+    this.nodeId = nodeId;
+    this.port = port;
+    this.issues = issues;
+  }
+}
+
+// 用于比较端口形状的 JSON Schema 子集
+interface PortShape {
+  type?: string | string[];
+  anyOf?: PortShape[];
+  properties?: Record<string, PortShape>;
+  required?: string[];
+  additionalProperties?: boolean | PortShape;
+}
+
+// 模式转换结果缓存（模式多为模块级常量，按实例缓存即可）
+const shapeCache = {
+  input: new WeakMap<z.ZodType, PortShape>(),
+  output: new WeakMap<z.ZodType, PortShape>()
+};
+
+/**
+ * 节点端口工具
+ * 执行引擎用它在节点边界校验数据；画布与静态校验用它检查连接两端的形状是否兼容
+ */
+export class NodePortUtils {
+  // 校验节点输入，不符合时返回 NodeSchemaError
+  static validateInput(node: BaseNode, inputs: unknown): NodeSchemaError | undefined {
+    const schema = node.getSchemas().input;
+    const issues = schema ? SchemaUtils.check(schema, inputs) : [];
+    return issues.length > 0 ? new NodeSchemaError(node.id, 'input', issues) : undefined;
+  }
+
+  // 校验节点输出，不符合时返回 NodeSchemaError
+  static validateOutput(node: BaseNode, data: unknown): NodeSchemaError | undefined {
+    const schema = node.getSchemas().output;
+    const issues = schema ? SchemaUtils.check(schema, data) : [];
+    return issues.length > 0 ? new NodeSchemaError(node.id, 'output', issues) : undefined;
+  }
+
+  /**
+   * 检查连接：源节点的输出能否满足目标节点必需的输入，返回问题描述（兼容或无法判断时为空）
+   * 错误分支、按来源分组或追加合并的目标、形状未知的源节点不做判断；
+   * 目标节点的其他入边可能提供的字段不视为缺失（浅合并）
+   */
+  static checkConnection(workflow: BaseWorkflow, connection: WorkflowConnection): string[] {
+    const source = workflow.nodes.get(connection.sourceNodeId);
+    const target = workflow.nodes.get(connection.targetNodeId);
+    if (!source || !target || connection.branchIndex === ERROR_BRANCH_INDEX) return [];
+    const merge = target.config.join?.merge ?? 'shallow';
+    if (merge !== 'shallow') return [];
+
+    const input = this.getShape(target.getSchemas().input, 'input');
+    const sourceSchemas = source.getSchemas();
+    const output = this.getShape(sourceSchemas.item ?? sourceSchemas.output, 'output');
+    if (!input?.properties || !output?.properties) return [];
+
+    const problems: string[] = [];
+    const others = [...workflow.connections.values()].filter(
+      c => c.targetNodeId === target.id && c.id !== connection.id && c.branchIndex !== ERROR_BRANCH_INDEX
+    );
+    const otherKeys = this.getProvidedKeys(workflow, others);
+    if (output.additionalProperties === false && otherKeys) {
+      for (const key of input.required ?? []) {
+        if (!(key in output.properties) && !otherKeys.has(key)) {
+          problems.push(`missing required input "${key}"`);
+        }
+      }
+    }
+
+    for (const [key, expected] of Object.entries(input.properties)) {
+      const provided = output.properties[key];
+      if (!provided) continue;
+      const expectedTypes = this.getTypes(expected);
+      const providedTypes = this.getTypes(provided);
+      if (!expectedTypes || !providedTypes) continue;
+      if (!providedTypes.some(type => expectedTypes.includes(type))) {
+        problems.push(`input "${key}" expects ${expectedTypes.join(' | ')} but ${source.id} outputs ${providedTypes.join(' | ')}`);
+      }
+    }
+    return problems;
+  }
+
+  // 检查所有连接，返回不兼容的连接 id → 问题描述
+  static findIncompatibleConnections(workflow: BaseWorkflow): Map<string, string[]> {
+    const incompatible = new Map<string, string[]>();
+    for (const connection of workflow.connections.values()) {
+      const problems = this.checkConnection(workflow, connection);
+      if (problems.length > 0) incompatible.set(connection.id, problems);
+    }
+    return incompatible;
+  }
+
+  // 其他入边一定提供的字段；任一来源形状未知时返回 undefined（可能提供任意字段）
+  private static getProvidedKeys(workflow: BaseWorkflow, connections: WorkflowConnection[]): Set<string> | undefined {
+    const keys = new Set<string>();
+    for (const connection of connections) {
+      const source = workflow.nodes.get(connection.sourceNodeId);
+      const schemas = source?.getSchemas();
+      const output = this.getShape(schemas?.item ?? schemas?.output, 'output');
+      if (!output?.properties || output.additionalProperties !== false) return undefined;
+      Object.keys(output.properties).forEach(key => keys.add(key));
+    }
+    return keys;
+  }
+
+  // 字段允许的 JSON 类型（integer 归入 number）；无法确定时返回 undefined
+  private static getTypes(shape: PortShape): string[] | undefined {
+    const variants = shape.anyOf ?? [shape];
+    const types: string[] = [];
+    for (const variant of variants) {
+      if (!variant.type) return undefined;
+      for (const type of Array.isArray(variant.type) ? variant.type : [variant.type]) {
+        types.push(type === 'integer' ? 'number' : type);
+      }
+    }
+    return types;
+  }
+
+  private static getShape(schema: z.ZodType | undefined, io: 'input' | 'output'): PortShape | undefined {
+    if (!schema) return undefined;
+    let shape = shapeCache[io].get(schema);
+    if (!shape) {
+      try {
+        shape = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as PortShape;
+      } catch {
+        shape = {};
+      }
+      shapeCache[io].set(schema, shape);
+    }
+    return shape.type === 'object' ? shape : undefined;
+  }
+}
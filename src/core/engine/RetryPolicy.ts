@@ -0,0 +1,78 @@
+import type { NodeExecutionResult, NodeRetryPolicy } from '../abstract/BaseNode';
+
+// 未配置时的默认值
+const DEFAULT_INITIAL_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 30000;
+const DEFAULT_MULTIPLIER = 2;
+
+/**
+ * 节点重试策略工具
+ * 由运行器在节点失败后调用：判断是否可重试，并计算下一次重试前的等待时间
+ */
+export class RetryPolicyUtils {
+  // 总尝试次数（含首次执行），至少为 1
+  static getMaxAttempts(policy?: NodeRetryPolicy): number {
+    const attempts = policy?.maxAttempts ?? 1;
+    return Number.isFinite(attempts) && attempts >= 1 ? Math.floor(attempts) : 1;
+  }
+
+  /**
+   * 判断执行结果是否应当重试
+   * - 失败结果：未配置 retryOnErrors 时全部可重试，否则按错误名或消息片段匹配
+   * - 成功结果：仅当输出的 HTTP 状态码在 retryOnStatusCodes 中时重试
+   */
+  static shouldRetry(policy: NodeRetryPolicy, result: NodeExecutionResult): boolean {
+    const statusCode = this.getStatusCode(result);
+    if (statusCode !== undefined && policy.retryOnStatusCodes?.includes(statusCode)) {
+      return true;
+    }
+    if (result.success) {
+      return false;
+    }
+
+    const patterns = policy.retryOnErrors;
+    if (!patterns || patterns.length === 0) {
+      return true;
+    }
+    const error = result.error;
+    if (!error) {
+      return false;
+    }
+    return patterns.some(pattern => error.name === pattern || error.message.includes(pattern));
+  }
+
+  /**
+   * 计算第 attempt 次重试（从 1 开始）前的等待时间
+   * jitter 开启时在 [delay/2, delay] 之间随机，避免多个节点同时重试
+   */
+  static getDelay(policy: NodeRetryPolicy, attempt: number, random: () => number = Math.random): number {
+    const initialDelay = policy.initialDelay ?? DEFAULT_INITIAL_DELAY;
+    const maxDelay = policy.maxDelay ?? DEFAULT_MAX_DELAY;
+    const multiplier = policy.multiplier ?? DEFAULT_MULTIPLIER;
+
+    const baseDelay = policy.backoff === 'fixed'
+      ? initialDelay
+      : initialDelay * Math.pow(multiplier, attempt - 1);
+    const delay = Math.min(baseDelay, maxDelay);
+
+    if (!policy.jitter) {
+      return delay;
+    }
+    return Math.round(delay / 2 + random() * (delay / 2));
+  }
+
+  // 读取结果中的 HTTP 状态码：错误对象上的 status，或输出数据中的 status 字段
+  private static getStatusCode(result: NodeExecutionResult): number | undefined {
+    const errorStatus = (result.error as (Error & { status?: unknown }) | undefined)?.status;
+    if (typeof errorStatus === 'number') {
+      return errorStatus;
+    }
+    if (result.data && typeof result.data === 'object') {
+      const status = (result.data as Record<string, unknown>).status;
+      if (typeof status === 'number') {
+        return status;
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,446 @@
+import type { BaseWorkflow } from '../abstract/BaseWorkflow';
+import type { CredentialVault } from '../credentials/CredentialVault';
+import type { WebhookMethod, WebhookResponseMode, WebhookTriggerSettings } from '../nodes/WebhookTriggerNode';
+import { NodeItemUtils, type BinaryData } from './NodeItems';
+import { WorkflowEnvironmentUtils } from './WorkflowEnvironment';
+import { WorkflowRunner, type WorkflowResponse, type WorkflowRunResult, type WorkflowRunnerOptions } from './WorkflowRunner';
+
+// 路由冲突：两个 Webhook 触发节点声明了相同的方法与路径
+export class WebhookRouteError extends Error {
+  public readonly method: string;
+  public readonly path: string;
+
+  constructor(method: string, path: string, existing: string) {
+    super(`Webhook route ${method} /${path} is already registered by ${existing}`);
+    this.name = 'WebhookRouteError';
+    this.method = method;
+    this.path = path;
+  }
+}
+
+// 收到的请求（与 HTTP 框架无关）；请求头名称为小写
+export interface WebhookRequest {
+  method: string;
+  // 相对 Webhook 基础路径的请求路径
+  path: string;
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  body?: unknown;
+  // 请求中的文件（multipart 字段或非文本请求体），按字段名保存
+  binary?: Record<string, BinaryData>;
+}
+
+// 注册工作流时的运行选项（传给每次 Webhook 运行的 WorkflowRunner）；credentials 同时用于校验请求认证
+export type WebhookWorkflowOptions = Pick<
+  WorkflowRunnerOptions,
+  'inputs' | 'environment' | 'credentials' | 'staticVariables' | 'events' | 'maxConcurrency' | 'validateSchemas'
+>;
+
+// 一次 Webhook 运行（request 已去掉认证信息）
+export interface WebhookRun {
+  workflowId: string;
+  nodeId: string;
+  request: WebhookRequest;
+  receivedAt: number;
+}
+
+// Webhook 运行的结果：run() 抛出（如运行参数不符合声明）时只有 error
+export interface WebhookRunOutcome {
+  result?: WorkflowRunResult;
+  error?: Error;
+}
+
+// 路由器选项
+export interface WebhookRouterOptions {
+  // respondNode 模式等待回复的最长时间（毫秒），超时回复 504，工作流继续运行；默认 30000
+  responseTimeout?: number;
+  // 每次运行结束后调用
+  onRunFinished?: (run: WebhookRun, outcome: WebhookRunOutcome) => void;
+}
+
+// 已注册的路由（供界面与监控查看）
+export interface WebhookRouteInfo {
+  workflowId: string;
+  nodeId: string;
+  method: WebhookMethod;
+  path: string;
+  responseMode: WebhookResponseMode;
+  authenticated: boolean;
+}
+
+// 单个 Webhook 触发节点的路由
+interface WebhookRoute extends WebhookRouteInfo {
+  segments: string[];
+  credentialId?: string;
+  responseCode: number;
+  workflow: BaseWorkflow;
+  options: WebhookWorkflowOptions;
+}
+
+export const DEFAULT_RESPONSE_TIMEOUT = 30000;
+
+/**
+ * Webhook 路由器
+ * 读取已注册工作流中的 Webhook 触发节点，按方法与路径（可含 :name 段）匹配请求、校验凭证，
+ * 以请求作为触发载荷运行工作流；按节点的 responseMode 立即回复，或等待响应节点的结果
+ */
+export class WebhookRouter {
+  private readonly options: WebhookRouterOptions;
+  private readonly routes = new Map<string, WebhookRoute[]>();
+  private readonly running = new Set<Promise<void>>();
+
+  constructor(options: WebhookRouterOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * 注册工作流（同 id 的已注册工作流被替换），返回 Webhook 触发节点 id
+   * 触发节点的设置按所选环境解析；与其他工作流的路由冲突时抛出 WebhookRouteError
+   */
+  public register(workflow: BaseWorkflow, options: WebhookWorkflowOptions = {}): string[] {
+    const routes = this.createRoutes(workflow, options);
+    const others = [...this.routes.entries()].filter(([id]) => id !== workflow.config.id).flatMap(([, r]) => r);
+    routes.forEach((route, i) => {
+      const conflict = [...others, ...routes.slice(0, i)].find(other =>
+        other.method === route.method && WebhookRouter.routeKey(other.segments) === WebhookRouter.routeKey(route.segments)
+      );
+      if (conflict) {
+        throw new WebhookRouteError(route.method, route.path, `${conflict.workflowId}:${conflict.nodeId}`);
+      }
+    });
+    this.routes.set(workflow.config.id, routes);
+    return routes.map(route => route.nodeId);
+  }
+
+  // 取消注册：不再接收新的请求，进行中的运行继续完成
+  public unregister(workflowId: string): void {
+    this.routes.delete(workflowId);
+  }
+
+  public getRoutes(): WebhookRouteInfo[] {
+    return [...this.routes.values()].flat().map(({ workflowId, nodeId, method, path, responseMode, authenticated }) => ({
+      workflowId, nodeId, method, path, responseMode, authenticated
+    }));
+  }
+
+  // 等待在后台进行的运行（immediately 模式及等待超时的运行）全部结束
+  public async idle(): Promise<void> {
+    while (this.running.size > 0) {
+      await Promise.all(this.running);
+    }
+  }
+
+  /**
+   * 处理请求：路径不存在回复 404，方法不符回复 405，认证失败回复 401
+   */
+  public async handle(request: WebhookRequest): Promise<WorkflowResponse> {
+    const segments = WebhookRouter.splitPath(request.path);
+    const matched = [...this.routes.values()].flat()
+      .map(route => ({ route, params: WebhookRouter.matchPath(route.segments, segments) }))
+      .filter((match): match is { route: WebhookRoute; params: Record<string, string> } => match.params !== undefined);
+    if (matched.length === 0) {
+      return WebhookRouter.error(404, `No webhook registered for /${segments.join('/')}`);
+    }
+
+    // 静态段多的路由优先（orders/latest 优先于 orders/:id）
+    const match = matched
+      .filter(({ route }) => route.method === request.method.toUpperCase())
+      .sort((a, b) => WebhookRouter.staticCount(b.route.segments) - WebhookRouter.staticCount(a.route.segments))[0];
+    if (!match) {
+      const allowed = [...new Set(matched.map(({ route }) => route.method))].join(', ');
+      return { ...WebhookRouter.error(405, `Method ${request.method} not allowed`), headers: { Allow: allowed } };
+    }
+
+    const { route, params } = match;
+    let authorized: WebhookRequest;
+    try {
+      const checked = await this.authenticate(route, request);
+      if (!checked) {
+        return WebhookRouter.error(401, 'Unauthorized');
+      }
+      authorized = checked;
+    } catch (error) {
+      console.error(`Webhook ${route.workflowId}:${route.nodeId} cannot verify credential:`, error);
+      return WebhookRouter.error(500, 'Webhook credential cannot be verified');
+    }
+
+    const run: WebhookRun = {
+      workflowId: route.workflowId,
+      nodeId: route.nodeId,
+      request: authorized,
+      receivedAt: Date.now()
+    };
+    const trigger = {
+      method: authorized.method.toUpperCase(),
+      path: segments.join('/'),
+      params,
+      headers: authorized.headers,
+      query: authorized.query,
+      body: authorized.body,
+      ...(authorized.binary ? { binary: authorized.binary } : {})
+    };
+
+    if (route.responseMode === 'immediately') {
+      this.track(this.execute(route, run, trigger));
+      return { statusCode: route.responseCode, headers: {}, body: { message: 'Workflow started' } };
+    }
+    return this.executeAndWait(route, run, trigger);
+  }
+
+  /**
+   * 处理 Fetch API 请求（Next.js 路由处理器等）：basePath 为 Webhook 的基础路径，如 /api/webhooks
+   */
+  public async handleFetch(request: Request, basePath = ''): Promise<Response> {
+    let webhookRequest: WebhookRequest;
+    try {
+      webhookRequest = await WebhookRouter.fromFetchRequest(request, basePath);
+    } catch (error) {
+      return WebhookRouter.toFetchResponse(WebhookRouter.error(400, (error as Error).message));
+    }
+    return WebhookRouter.toFetchResponse(await this.handle(webhookRequest));
+  }
+
+  /**
+   * 解析 Fetch API 请求：JSON、表单与文本请求体解析为 body，multipart 中的文件与其他类型的请求体放在 binary
+   */
+  static async fromFetchRequest(request: Request, basePath = ''): Promise<WebhookRequest> {
+    const url = new URL(request.url);
+    const base = WebhookRouter.splitPath(basePath);
+    const segments = WebhookRouter.splitPath(decodeURI(url.pathname));
+    const path = base.every((segment, i) => segments[i] === segment) ? segments.slice(base.length) : segments;
+
+    const result: WebhookRequest = {
+      method: request.method.toUpperCase(),
+      path: path.join('/'),
+      headers: Object.fromEntries(request.headers),
+      query: Object.fromEntries(url.searchParams)
+    };
+    if (request.method === 'GET' || request.method === 'HEAD') return result;
+
+    const contentType = (request.headers.get('content-type') ?? '').toLowerCase();
+    const mimeType = contentType.split(';')[0].trim();
+    if (mimeType === 'multipart/form-data') {
+      const body: Record<string, unknown> = {};
+      const binary: Record<string, BinaryData> = {};
+      for (const [name, value] of await request.formData()) {
+        if (typeof value === 'string') {
+          body[name] = value;
+        } else {
+          const bytes = new Uint8Array(await value.arrayBuffer());
+          binary[name] = NodeItemUtils.toBinary(bytes, value.type || 'application/octet-stream', value.name || undefined);
+        }
+      }
+      result.body = body;
+      if (Object.keys(binary).length > 0) result.binary = binary;
+      return result;
+    }
+
+    const bytes = new Uint8Array(await request.arrayBuffer());
+    if (bytes.length === 0) return result;
+    if (mimeType === 'application/json' || mimeType.endsWith('+json')) {
+      try {
+        result.body = JSON.parse(new TextDecoder().decode(bytes));
+      } catch {
+        throw new Error('Request body is not valid JSON');
+      }
+    } else if (mimeType === 'application/x-www-form-urlencoded') {
+      result.body = Object.fromEntries(new URLSearchParams(new TextDecoder().decode(bytes)));
+    } else if (mimeType.startsWith('text/') || mimeType === 'application/xml' || mimeType === '') {
+      result.body = new TextDecoder().decode(bytes);
+    } else {
+      result.binary = { data: NodeItemUtils.toBinary(bytes, mimeType) };
+    }
+    return result;
+  }
+
+  /**
+   * 把回复转换为 Fetch API 响应：二进制按其类型发送，字符串为文本，其他值为 JSON
+   */
+  static toFetchResponse(response: WorkflowResponse): Response {
+    const headers = new Headers(response.headers);
+    if (response.binary) {
+      if (!headers.has('content-type')) headers.set('content-type', response.binary.mimeType);
+      if (response.binary.fileName && !headers.has('content-disposition')) {
+        headers.set('content-disposition', `attachment; filename="${encodeURIComponent(response.binary.fileName)}"`);
+      }
+      return new Response(NodeItemUtils.fromBinary(response.binary), { status: response.statusCode, headers });
+    }
+    if (response.body === undefined || response.statusCode === 204 || response.statusCode === 304) {
+      return new Response(null, { status: response.statusCode, headers });
+    }
+    if (typeof response.body === 'string') {
+      if (!headers.has('content-type')) headers.set('content-type', 'text/plain; charset=utf-8');
+      return new Response(response.body, { status: response.statusCode, headers });
+    }
+    if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+    return new Response(JSON.stringify(response.body), { status: response.statusCode, headers });
+  }
+
+  // 解析工作流中的 Webhook 触发节点
+  private createRoutes(workflow: BaseWorkflow, options: WebhookWorkflowOptions): WebhookRoute[] {
+    const environment = WorkflowEnvironmentUtils.resolve(workflow.config, options.environment);
+    const routes: WebhookRoute[] = [];
+    for (const node of workflow.nodes.values()) {
+      if (node.config.type !== 'webhook-trigger') continue;
+
+      const settings = node.resolveDynamicSettings({}, {
+        workflowId: workflow.config.id,
+        nodeId: node.id,
+        previousResults: new Map(),
+        originalSettings: node.originalSettings,
+        environment: environment?.values,
+        settingOverrides: environment?.overrides?.[node.id]
+      }) as WebhookTriggerSettings;
+
+      const segments = WebhookRouter.splitPath(String(settings.path ?? ''));
+      if (segments.length === 0) continue;
+      routes.push({
+        workflowId: workflow.config.id,
+        nodeId: node.id,
+        method: settings.method ?? 'POST',
+        path: segments.join('/'),
+        responseMode: settings.responseMode ?? 'immediately',
+        authenticated: !!settings.credentialId,
+        segments,
+        credentialId: settings.credentialId,
+        responseCode: settings.responseCode ?? 200,
+        workflow,
+        options
+      });
+    }
+    return routes;
+  }
+
+  /**
+   * 校验请求携带的凭证：凭证解析出的每个请求头与查询参数都须一致
+   * 通过时返回去掉这些认证信息的请求（不写入触发输出与执行记录），不通过时返回 undefined
+   */
+  private async authenticate(route: WebhookRoute, request: WebhookRequest): Promise<WebhookRequest | undefined> {
+    if (!route.credentialId) return request;
+    const vault: CredentialVault | undefined = route.options.credentials;
+    if (!vault) {
+      throw new Error(`Credential ${route.credentialId} cannot be resolved: no credential vault configured`);
+    }
+    const credential = await vault.get(route.credentialId);
+    if (credential.kind === 'oauth2Client') {
+      throw new Error(`OAuth2 client credential ${route.credentialId} cannot authenticate incoming requests`);
+    }
+
+    const auth = await vault.resolveAuth(route.credentialId);
+    const headers = { ...request.headers };
+    const query = { ...request.query };
+    let valid = true;
+    for (const [name, expected] of Object.entries(auth.headers)) {
+      valid = WebhookRouter.safeEqual(headers[name.toLowerCase()] ?? '', expected) && valid;
+      delete headers[name.toLowerCase()];
+    }
+    for (const [name, expected] of Object.entries(auth.query)) {
+      valid = WebhookRouter.safeEqual(query[name] ?? '', expected) && valid;
+      delete query[name];
+    }
+    return valid ? { ...request, headers, query } : undefined;
+  }
+
+  // 运行工作流，结束后通知 onRunFinished
+  private async execute(
+    route: WebhookRoute,
+    run: WebhookRun,
+    trigger: Record<string, unknown>,
+    respond?: (response: WorkflowResponse) => void
+  ): Promise<WebhookRunOutcome> {
+    let outcome: WebhookRunOutcome;
+    try {
+      const runner = new WorkflowRunner(route.workflow, {
+        ...route.options,
+        trigger: { nodeId: route.nodeId, data: trigger },
+        respond
+      });
+      outcome = { result: await runner.run() };
+    } catch (error) {
+      outcome = { error: error instanceof Error ? error : new Error(String(error)) };
+    }
+
+    try {
+      this.options.onRunFinished?.(run, outcome);
+    } catch (error) {
+      console.warn(`Webhook onRunFinished callback threw for workflow ${run.workflowId}:`, error);
+    }
+    return outcome;
+  }
+
+  /**
+   * 等待响应节点的回复；工作流结束仍未回复时，成功以工作流输出回复（没有输出映射时为 204），失败回复 500
+   */
+  private executeAndWait(route: WebhookRoute, run: WebhookRun, trigger: Record<string, unknown>): Promise<WorkflowResponse> {
+    return new Promise(resolve => {
+      let settled = false;
+      const settle = (response: WorkflowResponse) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        resolve(response);
+      };
+      const timeout = this.options.responseTimeout ?? DEFAULT_RESPONSE_TIMEOUT;
+      const timer = setTimeout(() => settle(WebhookRouter.error(504, `Workflow did not respond within ${timeout}ms`)), timeout);
+
+      const redact = <T>(value: T): T => route.options.credentials?.redact(value) ?? value;
+      const execution = this.execute(route, run, trigger, response => settle(redact(response))).then(outcome => {
+        const error = outcome.error ?? outcome.result?.error;
+        if (error || outcome.result?.status !== 'completed') {
+          settle(WebhookRouter.error(500, redact(error?.message ?? `Workflow ${outcome.result?.status}`)));
+        } else if (outcome.result.outputs) {
+          settle({ statusCode: 200, headers: {}, body: redact(outcome.result.outputs) });
+        } else {
+          settle({ statusCode: 204, headers: {} });
+        }
+      });
+      this.track(execution);
+    });
+  }
+
+  private track(execution: Promise<unknown>): void {
+    const done = execution.then(() => undefined);
+    this.running.add(done);
+    void done.finally(() => this.running.delete(done));
+  }
+
+  private static error(statusCode: number, message: string): WorkflowResponse {
+    return { statusCode, headers: {}, body: { error: message } };
+  }
+
+  private static splitPath(path: string): string[] {
+    return path.split('/').filter(segment => segment.length > 0);
+  }
+
+  // 路由的规范形式（:name 段不区分名称），用于检测冲突
+  private static routeKey(segments: string[]): string {
+    return segments.map(segment => (segment.startsWith(':') ? ':' : segment)).join('/');
+  }
+
+  private static staticCount(segments: string[]): number {
+    return segments.filter(segment => !segment.startsWith(':')).length;
+  }
+
+  // 按路由匹配路径，返回 :name 段的值；不匹配时返回 undefined
+  private static matchPath(route: string[], path: string[]): Record<string, string> | undefined {
+    if (route.length !== path.length) return undefined;
+    const params: Record<string, string> = {};
+    for (let i = 0; i < route.length; i++) {
+      if (route[i].startsWith(':')) {
+        params[route[i].slice(1)] = path[i];
+      } else if (route[i] !== path[i]) {
+        return undefined;
+      }
+    }
+    return params;
+  }
+
+  // 比较耗时只取决于期望值的长度，避免按响应时间逐字符猜测机密
+  private static safeEqual(actual: string, expected: string): boolean {
+    let diff = actual.length ^ expected.length;
+    for (let i = 0; i < expected.length; i++) {
+      diff |= (actual.charCodeAt(i) || 0) ^ expected.charCodeAt(i);
+    }
+    return diff === 0;
+  }
+}
@@ -0,0 +1,109 @@
+import type { WorkflowConfig, WorkflowEnvironment } from '../abstract/BaseWorkflow';
+
+// 选择的环境未在工作流中声明
+export class WorkflowEnvironmentError extends Error {
+  public readonly environment: string;
+
+  constructor(environment: string, available: string[]) {
+    super(`Unknown environment "${environment}" (available: ${available.join(', ') || 'none'})`);
+    this.name = 'WorkflowEnvironmentError';
+    this.environment = environment;
+  }
+}
+
+/**
+ * 环境配置工具
+ * 运行器在启动时选择环境，节点解析设置前先应用该环境对本节点的覆盖
+ */
+export class WorkflowEnvironmentUtils {
+  /**
+   * 选择环境：传入名称时在工作流的环境中查找（不存在时抛出 WorkflowEnvironmentError），
+   * 传入对象时直接使用（如从外部配置加载的环境），都未提供时使用 defaultEnvironment
+   */
+  static resolve(
+    config: WorkflowConfig,
+    selected?: string | WorkflowEnvironment
+  ): WorkflowEnvironment | undefined {
+    if (selected && typeof selected === 'object') {
+      return selected;
+    }
+    const name = selected || config.defaultEnvironment;
+    if (!name) return undefined;
+
+    const environments = config.environments ?? [];
+    const environment = environments.find(env => env.name === name);
+    if (!environment) {
+      throw new WorkflowEnvironmentError(name, environments.map(env => env.name));
+    }
+    return environment;
+  }
+
+  /**
+   * 应用设置覆盖：键为以点分隔的设置路径，中间缺失的对象会被创建；不修改原设置
+   */
+  static applyOverrides<T extends Record<string, unknown>>(
+    settings: T,
+    overrides?: Record<string, unknown>
+  ): T {
+    if (!overrides || Object.keys(overrides).length === 0) {
+      return settings;
+    }
+
+    const result = structuredClone(settings) as Record<string, unknown>;
+    for (const [path, value] of Object.entries(overrides)) {
+      const keys = path.split('.');
+      let target = result;
+      for (const key of keys.slice(0, -1)) {
+        const next = target[key];
+        if (!next || typeof next !== 'object' || Array.isArray(next)) {
+          target[key] = {};
+        }
+        target = target[key] as Record<string, unknown>;
+      }
+      target[keys[keys.length - 1]] = structuredClone(value);
+    }
+    return result as T;
+  }
+
+  /**
+   * 验证环境声明（名称唯一、values 与 overrides 为对象、defaultEnvironment 已声明）
+   */
+  static validate(environments: unknown, defaultEnvironment?: unknown): string[] {
+    if (!Array.isArray(environments)) {
+      return ['Config environments must be an array'];
+    }
+
+    const errors: string[] = [];
+    const names = new Set<string>();
+    environments.forEach((environment, i) => {
+      const env = environment as Record<string, unknown> | null;
+      if (!env || typeof env !== 'object') {
+        errors.push(`Environment at index ${i} is invalid`);
+        return;
+      }
+      if (!env.name || typeof env.name !== 'string') {
+        errors.push(`Environment at index ${i} missing name`);
+      } else if (names.has(env.name)) {
+        errors.push(`Environment at index ${i} has duplicate name: ${env.name}`);
+      } else {
+        names.add(env.name);
+      }
+      if (!env.values || typeof env.values !== 'object' || Array.isArray(env.values)) {
+        errors.push(`Environment at index ${i} missing values`);
+      }
+      if (env.overrides !== undefined) {
+        const overrides = env.overrides as Record<string, unknown> | null;
+        if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides) ||
+            Object.values(overrides).some(o => !o || typeof o !== 'object' || Array.isArray(o))) {
+          errors.push(`Environment at index ${i} has invalid overrides (must map node ids to setting overrides)`);
+        }
+      }
+    });
+
+    if (defaultEnvironment !== undefined &&
+        (typeof defaultEnvironment !== 'string' || !names.has(defaultEnvironment))) {
+      errors.push(`Config defaultEnvironment must name a declared environment`);
+    }
+    return errors;
+  }
+}
@@ -0,0 +1,55 @@
+import type { WorkflowConnection } from '../abstract/BaseWorkflow';
+
+// 回边：指向 DFS 路径上祖先节点的连接，去掉全部回边后图即无环
+export interface BackEdge {
+  connection: WorkflowConnection;
+  // 回边闭合的环路：从目标节点沿前向连接到源节点，再回到目标节点
+  cycle: string[];
+}
+
+// 工作流图工具类（运行器、画布布局与校验共用）
+export class WorkflowGraphUtils {
+  /**
+   * 识别回边：从入度为 0 的节点开始按声明顺序深度优先遍历，其余节点随后作为起点
+   * 结果只取决于节点与连接的声明顺序，画布与运行器得到同一组回边
+   */
+  static findBackEdges(nodeIds: string[], connections: WorkflowConnection[]): BackEdge[] {
+    const known = new Set(nodeIds);
+    const valid = connections.filter(c => known.has(c.sourceNodeId) && known.has(c.targetNodeId));
+    const outMap = new Map<string, WorkflowConnection[]>();
+    const targets = new Set<string>();
+    for (const connection of valid) {
+      const outs = outMap.get(connection.sourceNodeId) || [];
+      outs.push(connection);
+      outMap.set(connection.sourceNodeId, outs);
+      targets.add(connection.targetNodeId);
+    }
+
+    const backEdges: BackEdge[] = [];
+    const visited = new Set<string>();
+    const path: string[] = [];
+    const onPath = new Set<string>();
+
+    const visit = (nodeId: string) => {
+      visited.add(nodeId);
+      path.push(nodeId);
+      onPath.add(nodeId);
+      for (const connection of outMap.get(nodeId) || []) {
+        const targetId = connection.targetNodeId;
+        if (onPath.has(targetId)) {
+          backEdges.push({ connection, cycle: [...path.slice(path.indexOf(targetId)), targetId] });
+        } else if (!visited.has(targetId)) {
+          visit(targetId);
+        }
+      }
+      path.pop();
+      onPath.delete(nodeId);
+    };
+
+    const roots = [...nodeIds.filter(id => !targets.has(id)), ...nodeIds];
+    for (const nodeId of roots) {
+      if (!visited.has(nodeId)) visit(nodeId);
+    }
+    return backEdges;
+  }
+}
@@ -0,0 +1,149 @@
+import type { WorkflowInputDefinition, WorkflowInputType } from '../abstract/BaseWorkflow';
+import { ExpressionParser, type ExpressionContext } from '../utils/ExpressionParser';
+
+const INPUT_TYPES: WorkflowInputType[] = ['string', 'number', 'boolean', 'object', 'array'];
+
+// 运行参数不符合工作流的输入声明
+export class WorkflowInputError extends Error {
+  public readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid workflow inputs: ${errors.join(', ')}`);
+    this.name = 'WorkflowInputError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * 工作流输入输出工具
+ * 运行器在启动前解析输入（校验、类型转换、默认值），在完成后按输出映射求值
+ */
+export class WorkflowIOUtils {
+  /**
+   * 按声明解析运行参数：填充默认值，把字符串（表单、URL 参数等）转换为声明的类型
+   * 未声明的参数原样保留；不符合声明时抛出 WorkflowInputError
+   */
+  static resolveInputs(
+    definitions: WorkflowInputDefinition[] = [],
+    provided: Record<string, unknown> = {}
+  ): Record<string, unknown> {
+    const resolved: Record<string, unknown> = { ...provided };
+    const errors: string[] = [];
+
+    for (const definition of definitions) {
+      let value = provided[definition.name];
+      if (value === undefined || (value === '' && definition.type !== 'string')) {
+        value = definition.default !== undefined ? structuredClone(definition.default) : undefined;
+      }
+      if (value === undefined) {
+        delete resolved[definition.name];
+        if (definition.required) {
+          errors.push(`Missing required input: ${definition.name}`);
+        }
+        continue;
+      }
+
+      const coerced = this.coerce(value, definition.type);
+      if (coerced === undefined) {
+        errors.push(`Input ${definition.name} must be of type ${definition.type}`);
+        continue;
+      }
+      resolved[definition.name] = coerced;
+    }
+
+    if (errors.length > 0) {
+      throw new WorkflowInputError(errors);
+    }
+    return resolved;
+  }
+
+  /**
+   * 按输出映射求值：整段为单个表达式时保留原始类型，否则按字符串模板解析
+   */
+  static resolveOutputs(outputs: Record<string, string>, context: ExpressionContext): Record<string, unknown> {
+    const resolved: Record<string, unknown> = {};
+    for (const [name, expression] of Object.entries(outputs)) {
+      resolved[name] = ExpressionParser.resolveValue(expression, context);
+    }
+    return resolved;
+  }
+
+  /**
+   * 验证输出映射（输出名称到表达式字符串）
+   */
+  static validateOutputs(outputs: unknown): string[] {
+    if (!outputs || typeof outputs !== 'object' || Array.isArray(outputs) ||
+        Object.values(outputs).some(expression => typeof expression !== 'string')) {
+      return ['Config has invalid outputs (must map output names to expression strings)'];
+    }
+    return [];
+  }
+
+  /**
+   * 验证输入声明（名称唯一、类型合法、默认值与类型一致）
+   */
+  static validateDefinitions(definitions: unknown): string[] {
+    if (!Array.isArray(definitions)) {
+      return ['Config inputs must be an array'];
+    }
+
+    const errors: string[] = [];
+    const names = new Set<string>();
+    definitions.forEach((definition, i) => {
+      const def = definition as Record<string, unknown> | null;
+      if (!def || typeof def !== 'object') {
+        errors.push(`Input at index ${i} is invalid`);
+        return;
+      }
+      if (!def.name || typeof def.name !== 'string') {
+        errors.push(`Input at index ${i} missing name`);
+      } else if (names.has(def.name)) {
+        errors.push(`Input at index ${i} has duplicate name: ${def.name}`);
+      } else {
+        names.add(def.name);
+      }
+      if (!INPUT_TYPES.includes(def.type as WorkflowInputType)) {
+        errors.push(`Input at index ${i} has invalid type (must be one of ${INPUT_TYPES.join(', ')})`);
+      } else if (def.default !== undefined && this.coerce(def.default, def.type as WorkflowInputType) === undefined) {
+        errors.push(`Input at index ${i} has a default that is not of type ${def.type}`);
+      }
+      if (def.required !== undefined && typeof def.required !== 'boolean') {
+        errors.push(`Input at index ${i} has invalid required flag (must be a boolean)`);
+      }
+    });
+    return errors;
+  }
+
+  // 转换为声明的类型，无法转换时返回 undefined
+  private static coerce(value: unknown, type: WorkflowInputType): unknown {
+    switch (type) {
+      case 'string':
+        return typeof value === 'string' ? value : undefined;
+      case 'number': {
+        const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+        return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+      }
+      case 'boolean':
+        if (typeof value === 'boolean') return value;
+        return value === 'true' ? true : value === 'false' ? false : undefined;
+      case 'object': {
+        const object = this.parseJSON(value);
+        return object && typeof object === 'object' && !Array.isArray(object) ? object : undefined;
+      }
+      case 'array': {
+        const array = this.parseJSON(value);
+        return Array.isArray(array) ? array : undefined;
+      }
+    }
+  }
+
+  // 字符串按 JSON 解析，其他值原样返回
+  private static parseJSON(value: unknown): unknown {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,1499 @@
+import { ERROR_BRANCH_INDEX } from '../abstract/BaseNode';
+import type { BaseNode, LoopIterationContext, NodeErrorOutput, NodeExecutionContext, NodeExecutionResult } from '../abstract/BaseNode';
+import type { BaseWorkflow, WorkflowConnection, WorkflowEnvironment } from '../abstract/BaseWorkflow';
+import type { ExecutionSnapshot, ExecutionSnapshotStatus, NodeCheckpoint } from './ExecutionSnapshot';
+import { RetryPolicyUtils } from './RetryPolicy';
+import { LoopNode, LOOP_BODY_BRANCH, LOOP_DONE_BRANCH, type LoopNodeOutput } from '../nodes/LoopNode';
+import { WorkflowGraphUtils, type BackEdge } from './WorkflowGraph';
+import { WorkflowIOUtils } from './WorkflowIO';
+import { WorkflowEnvironmentUtils } from './WorkflowEnvironment';
+import { NodePortUtils } from './NodePorts';
+import { NodeItemUtils, type BinaryData, type NodeItem } from './NodeItems';
+import { WorkflowVariables, type StaticVariableStore } from './WorkflowVariables';
+import type { CredentialVault } from '../credentials/CredentialVault';
+import { ExecutionEventBus, type ExecutionEventListener, type ExecutionEventName, type ExecutionEvents } from './ExecutionEvents';
+
+// 运行结束状态
+export type WorkflowRunStatus = 'completed' | 'failed' | 'aborted';
+
+// 一次运行的结果
+export interface WorkflowRunResult {
+  status: WorkflowRunStatus;
+  // 每个已执行节点的执行结果（按执行顺序插入）
+  results: Map<string, NodeExecutionResult>;
+  // 成功节点的输出数据，即表达式中的 $result
+  previousResults: Map<string, unknown>;
+  failedNodeId?: string;
+  error?: Error;
+  // 运行结束时的快照；失败后可传给新的运行器从失败节点继续
+  snapshot: ExecutionSnapshot;
+  // 按 config.outputs 求值的工作流输出（仅成功完成且声明了输出映射时存在）
+  outputs?: Record<string, unknown>;
+}
+
+// 触发本次运行的触发节点及其载荷（见 NodeExecutionContext.trigger）
+export interface WorkflowTrigger {
+  nodeId: string;
+  data?: Record<string, unknown>;
+}
+
+// 对触发调用方（如 Webhook 请求）的回复，由响应节点产生
+export interface WorkflowResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body?: unknown;
+  // 以二进制内容作为响应体（优先于 body）
+  binary?: BinaryData;
+}
+
+// 运行器选项
+export interface WorkflowRunnerOptions {
+  // 中止信号：触发后不再调度新节点，并通过 NodeExecutionContext.signal 中断进行中的节点
+  signal?: AbortSignal;
+  // 节点之间的间隔（毫秒），便于在画布上观察执行过程
+  stepDelay?: number;
+  // 同时执行的节点数上限，覆盖工作流配置中的 maxConcurrency
+  maxConcurrency?: number;
+  // 从快照恢复：快照中已完成的节点不再执行，直接复用其输出与所选分支
+  snapshot?: ExecutionSnapshot;
+  // 外部事件总线：日志、指标、持久化等可跨多次运行共享同一总线；缺省时由运行器创建
+  events?: ExecutionEventBus;
+  // 断点：在这些节点执行前停下，等待 step() 或 continue()
+  breakpoints?: Iterable<string>;
+  // 单步模式：在每个节点执行前停下
+  stepping?: boolean;
+  // 是否使用节点的固定输出（pinnedData），默认 true；生产运行可关闭以始终真实执行
+  usePinnedData?: boolean;
+  // 是否在节点边界按节点类型的模式校验输入与输出（不符合时节点以 NodeSchemaError 失败），默认 true
+  validateSchemas?: boolean;
+  // 运行参数：按 config.inputs 校验并填充默认值（不符合时 run() 抛出 WorkflowInputError），入口节点以其作为输入
+  inputs?: Record<string, unknown>;
+  // 静态变量存储：运行开始时加载，成功完成且有修改时保存；缺省时静态变量只在本次运行内有效
+  staticVariables?: StaticVariableStore;
+  // 嵌套运行（循环体）共享外层的变量作用域
+  variables?: WorkflowVariables;
+  // 环境：config.environments 中的名称（不存在时 run() 抛出 WorkflowEnvironmentError）或环境对象；
+  // 缺省时沿用快照记录的环境，其次为 config.defaultEnvironment
+  environment?: string | WorkflowEnvironment;
+  // 凭证保险库：节点按凭证 id 解析认证信息；节点结果与错误中出现的机密会被替换为 [REDACTED]
+  credentials?: CredentialVault;
+  // 触发本次运行的触发节点：其他触发节点（类型以 -trigger 结尾）不执行，其下游视为未激活
+  trigger?: WorkflowTrigger;
+  // 调用方等待回复时提供：响应节点通过 NodeExecutionContext.respond 调用
+  respond?: (response: WorkflowResponse) => void;
+  // 嵌套运行（循环体）使用：外层已完成节点的输出，以及当前迭代的 $item / $index
+  parentResults?: Map<string, unknown>;
+  loop?: LoopIterationContext;
+}
+
+// 调试器放行选项
+export interface DebugResumeOptions {
+  // 放行的节点；缺省为最早停下的节点
+  nodeId?: string;
+  // 替换该节点首个输入项的 json（设置会据此重新解析）
+  inputs?: Record<string, unknown>;
+  // 替换全部输入项的 json（按位置保留原有二进制部分，可增删项）；优先于 inputs
+  items?: Record<string, unknown>[];
+}
+
+// 未配置时的默认并发上限
+export const DEFAULT_MAX_CONCURRENCY = 4;
+
+// 循环体嵌套运行中转发到外层事件总线的事件
+const LOOP_FORWARDED_EVENTS = [
+  'nodeStarted',
+  'nodeFinished',
+  'nodeSucceeded',
+  'nodeFailed',
+  'nodeRetrying',
+  'branchSelected',
+  'toolCalled',
+  'breakpointHit'
+] as const satisfies readonly ExecutionEventName[];
+
+// 循环体：从循环节点 body 分支可达的节点，以及其中没有出边的末端节点（其输出即每次迭代的结果）
+interface LoopBody {
+  nodeIds: Set<string>;
+  sinkNodeIds: string[];
+}
+
+// 出边（保留连接声明顺序）
+interface OutgoingEdge {
+  connectionId: string;
+  targetNodeId: string;
+  branchIndex: number;
+  // 回边不计入下游入边，被选中时重新运行其目标节点所在的环路
+  backEdge: boolean;
+}
+
+// 传给节点的输入项（见 NodeExecutionContext.items / item / itemIndex）
+type NodeItemContext = Pick<NodeExecutionContext, 'items' | 'item' | 'itemIndex'>;
+
+// 按执行模式执行节点的结果：成功时 result.items 为输出项，branches 为每一项所选的分支
+interface ItemsExecution {
+  result: NodeExecutionResult;
+  branches: number[];
+  // 失败的输入项序号
+  failedItemIndex?: number;
+}
+
+// 单次运行的调度状态
+interface RunState {
+  results: Map<string, NodeExecutionResult>;
+  previousResults: Map<string, unknown>;
+  // 已完成节点按分支索引分组的输出项，下游经所连分支读取
+  items: Map<string, Map<number, NodeItem[]>>;
+  // 连接是否被激活（以连接 ID 为键）
+  activeEdges: Map<string, boolean>;
+  // 每个节点尚未结束的入边数量
+  remainingInputs: Map<string, number>;
+  // 已触发的节点及触发时已到达的入边
+  joined: Map<string, WorkflowConnection[]>;
+  ready: string[];
+  running: Map<string, Promise<void>>;
+  failure?: { nodeId: string; error: Error };
+  // 是否有节点因运行被停止而中断
+  interrupted?: boolean;
+  incoming: Map<string, WorkflowConnection[]>;
+  outgoing: Map<string, OutgoingEdge[]>;
+  // 可复用的检查点（来自传入的快照）与本次运行累计的检查点
+  restorable: Record<string, NodeCheckpoint>;
+  checkpoints: Record<string, NodeCheckpoint>;
+  // 每条回边已被走过的次数（以连接 ID 为键）
+  iterations: Map<string, number>;
+  // 节点被环路重置的次数：重置前开始执行的节点结束后不再结算
+  epochs: Map<string, number>;
+}
+
+// 运行被停止
+export class ExecutionAbortedError extends Error {
+  constructor() {
+    super('Execution aborted');
+    this.name = 'ExecutionAbortedError';
+  }
+}
+
+// 节点执行超过 config.timeout
+export class NodeTimeoutError extends Error {
+  public readonly nodeId: string;
+  public readonly timeout: number;
+
+  constructor(nodeId: string, timeout: number) {
+    super(`Node ${nodeId} timed out after ${timeout}ms`);
+    this.name = 'NodeTimeoutError';
+    this.nodeId = nodeId;
+    this.timeout = timeout;
+  }
+}
+
+// 工作流中存在未设置迭代上限的环路
+export class WorkflowCycleError extends Error {
+  public readonly workflowId: string;
+  public readonly cycle: string[];
+
+  constructor(workflowId: string, cycle: string[]) {
+    super(
+      `Workflow ${workflowId} contains a cycle: ${cycle.join(' -> ')} ` +
+      '(set maxIterations on the back edge or the workflow to allow it)'
+    );
+    this.name = 'WorkflowCycleError';
+    this.workflowId = workflowId;
+    this.cycle = cycle;
+  }
+}
+
+// 回边被走过的次数超过 maxIterations
+export class WorkflowIterationLimitError extends Error {
+  public readonly connectionId: string;
+  public readonly limit: number;
+
+  constructor(connection: WorkflowConnection, limit: number) {
+    super(
+      `Back edge ${connection.id} (${connection.sourceNodeId} -> ${connection.targetNodeId}) ` +
+      `exceeded its iteration limit of ${limit}`
+    );
+    this.name = 'WorkflowIterationLimitError';
+    this.connectionId = connection.id;
+    this.limit = limit;
+  }
+}
+
+/**
+ * 无框架依赖的工作流运行器
+ * 负责入口识别、依赖排序、分支选择与结果传递，UI 与服务端共用同一套执行语义
+ */
+export class WorkflowRunner {
+  private readonly workflow: BaseWorkflow;
+  private readonly options: WorkflowRunnerOptions;
+  public readonly events: ExecutionEventBus;
+  private paused = false;
+  private resumeWaiter?: () => void;
+  private snapshot?: ExecutionSnapshot;
+  private breakpoints: Set<string>;
+  private stepping: boolean;
+  // 停在断点上的节点及其放行函数（按停下的先后顺序）
+  private readonly halted = new Map<string, (edit: Pick<DebugResumeOptions, 'inputs' | 'items'>) => void>();
+  // 正在执行的循环体嵌套运行器：暂停、断点与单步操作同步给它们
+  private readonly children = new Set<WorkflowRunner>();
+  // 本次运行解析后的运行参数
+  private workflowInputs: Record<string, unknown> = {};
+  // 本次运行的变量作用域
+  private variables = new WorkflowVariables();
+  private environment?: WorkflowEnvironment;
+
+  constructor(workflow: BaseWorkflow, options: WorkflowRunnerOptions = {}) {
+    this.workflow = WorkflowRunner.isolateNodes(workflow);
+    this.options = options;
+    this.events = options.events ?? new ExecutionEventBus();
+    this.breakpoints = new Set(options.breakpoints);
+    this.stepping = options.stepping ?? false;
+  }
+
+  // 订阅事件，返回取消订阅函数
+  public on<K extends ExecutionEventName>(event: K, listener: ExecutionEventListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * 暂停：不再调度新节点，已在执行的节点继续完成
+   * 队列、已执行结果与 $result 数据都保留在运行器中，resume 后从同一位置继续
+   */
+  public pause(): void {
+    this.paused = true;
+    this.children.forEach(child => child.pause());
+  }
+
+  // 恢复被暂停的运行
+  public resume(): void {
+    this.children.forEach(child => child.resume());
+    if (!this.paused) return;
+    this.paused = false;
+    this.emit('resumed', {});
+    const waiter = this.resumeWaiter;
+    this.resumeWaiter = undefined;
+    waiter?.();
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  // 替换断点集合，运行中修改会在下一个节点开始前生效
+  public setBreakpoints(nodeIds: Iterable<string>): void {
+    this.breakpoints = new Set(nodeIds);
+    this.children.forEach(child => child.setBreakpoints(this.breakpoints));
+  }
+
+  public getBreakpoints(): string[] {
+    return [...this.breakpoints];
+  }
+
+  // 当前停在断点上的节点
+  public getHaltedNodeIds(): string[] {
+    return [...this.halted.keys(), ...[...this.children].flatMap(child => child.getHaltedNodeIds())];
+  }
+
+  // 单步：放行停下的节点，并在下一个节点执行前再次停下
+  public step(options: DebugResumeOptions = {}): void {
+    this.stepping = true;
+    this.release(options);
+  }
+
+  // 继续：放行停下的节点，直到遇到下一个断点
+  public continue(options: DebugResumeOptions = {}): void {
+    this.stepping = false;
+    this.release(options);
+  }
+
+  // 入口节点：入度为 0（忽略指向不存在节点的连接与回边）
+  public getEntryNodeIds(): string[] {
+    const inDegree = new Map<string, number>();
+    for (const nodeId of this.workflow.nodes.keys()) {
+      inDegree.set(nodeId, 0);
+    }
+    for (const connection of this.getForwardConnections()) {
+      inDegree.set(connection.targetNodeId, (inDegree.get(connection.targetNodeId) || 0) + 1);
+    }
+    return Array.from(inDegree.entries())
+      .filter(([, degree]) => degree === 0)
+      .map(([nodeId]) => nodeId);
+  }
+
+  /**
+   * 计算执行顺序（Kahn 拓扑排序，入口节点按声明顺序入队，忽略回边）
+   * 环路上的回边未设置迭代上限时抛出 WorkflowCycleError
+   */
+  public getExecutionOrder(): string[] {
+    const uncapped = this.getBackEdges().find(({ connection }) => this.getIterationLimit(connection) === undefined);
+    if (uncapped) {
+      throw new WorkflowCycleError(this.workflow.config.id, uncapped.cycle);
+    }
+
+    const nodeIds = Array.from(this.workflow.nodes.keys());
+    const outMap = this.buildOutgoingMap();
+    const inDegree = new Map<string, number>(nodeIds.map(id => [id, 0]));
+    for (const connection of this.getForwardConnections()) {
+      inDegree.set(connection.targetNodeId, (inDegree.get(connection.targetNodeId) || 0) + 1);
+    }
+
+    const queue = nodeIds.filter(id => inDegree.get(id) === 0);
+    const order: string[] = [];
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      order.push(nodeId);
+      for (const edge of outMap.get(nodeId) || []) {
+        if (edge.backEdge) continue;
+        const degree = (inDegree.get(edge.targetNodeId) || 0) - 1;
+        inDegree.set(edge.targetNodeId, degree);
+        if (degree === 0) queue.push(edge.targetNodeId);
+      }
+    }
+    return order;
+  }
+
+  /**
+   * 运行工作流：节点默认在所有上游节点结束后运行（可按节点配置 join 调整），相互独立的分支并发执行
+   * 未被选中的分支上的节点会被跳过（其下游同样视为未激活）
+   */
+  public async run(): Promise<WorkflowRunResult> {
+    const order = this.getExecutionOrder();
+    const trigger = this.options.trigger;
+    if (trigger && !this.workflow.nodes.has(trigger.nodeId)) {
+      throw new Error(`Workflow ${this.workflow.config.id} has no trigger node ${trigger.nodeId}`);
+    }
+    this.workflowInputs = WorkflowIOUtils.resolveInputs(this.workflow.config.inputs, this.options.inputs);
+    this.environment = WorkflowEnvironmentUtils.resolve(
+      this.workflow.config,
+      this.options.environment ?? this.options.snapshot?.environment
+    );
+    this.variables = this.options.variables ?? await this.loadVariables();
+    const incoming = this.buildIncomingMap();
+    const restorable = this.getRestorableCheckpoints();
+    const state: RunState = {
+      results: new Map(),
+      previousResults: new Map(this.options.parentResults),
+      items: new Map(),
+      activeEdges: new Map(),
+      remainingInputs: new Map(order.map(nodeId => [nodeId, (incoming.get(nodeId) || []).length])),
+      joined: new Map(),
+      ready: [],
+      running: new Map(),
+      incoming,
+      outgoing: this.buildOutgoingMap(),
+      restorable,
+      checkpoints: {},
+      iterations: new Map(),
+      epochs: new Map()
+    };
+    const maxConcurrency = this.getMaxConcurrency();
+    const startTime = Date.now();
+    this.emit('executionStarted', {
+      workflowId: this.workflow.config.id,
+      startTime,
+      resumed: this.options.snapshot !== undefined,
+      inputs: this.workflowInputs,
+      environment: this.environment?.name
+    });
+
+    // 先确定入口节点再入队：恢复检查点时会同步结算下游入边
+    const entryNodeIds = order.filter(nodeId => state.remainingInputs.get(nodeId) === 0);
+    for (const nodeId of entryNodeIds) {
+      if (trigger && nodeId !== trigger.nodeId && this.workflow.nodes.get(nodeId)!.config.type.endsWith('-trigger')) {
+        this.settleOutgoing(state.outgoing.get(nodeId) || [], () => false, state);
+      } else {
+        this.enqueue(nodeId, state);
+      }
+    }
+
+    while (state.ready.length > 0 || state.running.size > 0) {
+      const halted = state.failure !== undefined || this.options.signal?.aborted;
+
+      // 暂停且没有在执行的节点：等待恢复（或中止）后重新进入调度
+      if (!halted && this.paused && state.running.size === 0) {
+        this.updateSnapshot(state, 'paused');
+        this.emit('paused', { pendingNodeIds: [...state.ready] });
+        await this.waitForResume();
+        continue;
+      }
+
+      while (!halted && !this.paused && state.ready.length > 0 && state.running.size < maxConcurrency) {
+        const nodeId = state.ready.shift()!;
+        const task: Promise<void> = this.runNode(nodeId, state).finally(() => {
+          // 环路重启后同一节点可能再次进入执行，只移除自己的任务
+          if (state.running.get(nodeId) === task) state.running.delete(nodeId);
+        });
+        state.running.set(nodeId, task);
+      }
+
+      if (state.running.size === 0) break;
+      await Promise.race(state.running.values());
+    }
+
+    const result = this.buildRunResult(state);
+    if (result.status === 'completed') {
+      await this.saveStaticVariables();
+    }
+    const endTime = Date.now();
+    this.emit('executionFinished', {
+      workflowId: this.workflow.config.id,
+      status: result.status,
+      startTime,
+      endTime,
+      duration: endTime - startTime,
+      failedNodeId: result.failedNodeId,
+      error: result.error,
+      outputs: result.outputs
+    });
+    return result;
+  }
+
+  // 创建变量作用域：加载静态变量；从快照恢复时还原运行变量与未保存的静态变量
+  private async loadVariables(): Promise<WorkflowVariables> {
+    const snapshot = this.options.snapshot;
+    const stored = this.options.staticVariables
+      ? await this.options.staticVariables.load(this.workflow.config.id)
+      : {};
+    return new WorkflowVariables(
+      snapshot?.staticVariables ?? stored,
+      snapshot?.variables,
+      snapshot?.staticVariables !== undefined
+    );
+  }
+
+  // 保存本次运行修改过的静态变量（嵌套运行由外层保存）；保存失败只记录，不影响运行结果
+  private async saveStaticVariables(): Promise<void> {
+    const store = this.options.staticVariables;
+    if (!store || this.options.variables || !this.variables.hasStaticChanges()) return;
+    try {
+      await store.save(this.workflow.config.id, this.variables.getStaticValues());
+    } catch (error) {
+      console.warn(`Failed to save static variables for workflow ${this.workflow.config.id}:`, error);
+    }
+  }
+
+  // 根据调度结束时的状态生成运行结果
+  private buildRunResult(state: RunState): WorkflowRunResult {
+    const { results, previousResults } = state;
+    if (state.failure) {
+      return {
+        status: 'failed',
+        results,
+        previousResults,
+        failedNodeId: state.failure.nodeId,
+        error: state.failure.error,
+        snapshot: this.updateSnapshot(state, 'failed')
+      };
+    }
+    if (this.options.signal?.aborted && (state.ready.length > 0 || state.interrupted)) {
+      return { status: 'aborted', results, previousResults, snapshot: this.updateSnapshot(state, 'aborted') };
+    }
+    const outputs = this.workflow.config.outputs
+      ? WorkflowIOUtils.resolveOutputs(this.workflow.config.outputs, {
+          previousResults,
+          workflowInputs: this.workflowInputs,
+          variables: this.variables.toJSON(),
+          environment: this.environment?.values,
+          executionContext: { workflowId: this.workflow.config.id }
+        })
+      : undefined;
+    return { status: 'completed', results, previousResults, snapshot: this.updateSnapshot(state, 'completed'), outputs };
+  }
+
+  /**
+   * 节点执行时把解析后的设置写入 node.settings，并在 await 之后再次读取（事件、分支选择、节点自身）
+   * 因此每个运行器使用以原节点为原型的副本：同一工作流的并发运行（如同时到达的 Webhook 请求）互不影响
+   */
+  private static isolateNodes(workflow: BaseWorkflow): BaseWorkflow {
+    const isolated = Object.create(workflow) as BaseWorkflow;
+    isolated.nodes = new Map([...workflow.nodes].map(([nodeId, node]) => [nodeId, Object.create(node) as BaseNode]));
+    return isolated;
+  }
+
+  // 最近一次生成的执行快照（运行开始前为 undefined）
+  public getSnapshot(): ExecutionSnapshot | undefined {
+    return this.snapshot;
+  }
+
+  // 执行一个就绪节点，并根据结果激活后继连接
+  private async runNode(nodeId: string, state: RunState): Promise<void> {
+    const node = this.workflow.nodes.get(nodeId)!;
+    const epoch = state.epochs.get(nodeId) ?? 0;
+    // 节点的 inputs 为首个输入项的 json（单项时与逐对象传递一致）
+    let items = this.collectNodeItems(node, state.joined.get(nodeId) || [], state);
+    if (this.stepping || this.breakpoints.has(nodeId)) {
+      items = await this.haltBeforeNode(node, items, state.previousResults);
+    }
+    const inputs = items[0]?.json ?? {};
+
+    const startTime = Date.now();
+    this.emit('nodeStarted', { nodeId, startTime });
+
+    // 有固定输出时直接返回，不调用 execute
+    const pinned = node.pinnedData !== undefined && this.options.usePinnedData !== false;
+    const execution: ItemsExecution = pinned
+      ? this.toPinnedExecution(node)
+      : await this.executeItems(node, items, state);
+    const { result } = execution;
+    if ((state.epochs.get(nodeId) ?? 0) !== epoch) {
+      // 执行期间所在环路已重新开始，本次结果作废
+      return;
+    }
+    const endTime = Date.now();
+    const outs = state.outgoing.get(nodeId) || [];
+    const interrupted = !result.success && !!this.options.signal?.aborted;
+    const routeToError = !result.success && !interrupted && outs.some(o => o.branchIndex === ERROR_BRANCH_INDEX);
+
+    if (routeToError) {
+      // 有错误分支：把错误信息与输入作为节点输出，供下游表达式读取
+      const error = result.error || new Error(`Node ${nodeId} execution failed`);
+      const failedItemIndex = execution.failedItemIndex ?? 0;
+      const errorOutput: NodeErrorOutput = {
+        error: { name: error.name, message: error.message, nodeId },
+        input: items[failedItemIndex]?.json ?? inputs,
+        ...(items.length > 1 ? { itemIndex: failedItemIndex } : {})
+      };
+      result.data = errorOutput;
+    }
+    state.results.set(nodeId, result);
+
+    this.emit('nodeFinished', {
+      nodeId,
+      result,
+      startTime,
+      endTime,
+      inputs,
+      settings: pinned ? undefined : node.settings,
+      pinned: pinned || undefined
+    });
+    if (result.success) {
+      this.emit('nodeSucceeded', {
+        nodeId,
+        data: result.data,
+        startTime,
+        endTime,
+        duration: endTime - startTime,
+        pinned: pinned || undefined
+      });
+    } else {
+      this.emit('nodeFailed', {
+        nodeId,
+        error: result.error || new Error(`Node ${nodeId} execution failed`),
+        startTime,
+        endTime,
+        duration: endTime - startTime,
+        handled: routeToError
+      });
+    }
+
+    if (interrupted) {
+      // 运行被停止而中断的节点不算失败，也不写入检查点，恢复时会重新执行
+      state.interrupted = true;
+      return;
+    }
+
+    if (!result.success && !routeToError) {
+      // 没有错误分支：不再调度新节点，等待已在执行的节点结束
+      state.failure ??= {
+        nodeId,
+        error: result.error || new Error(`Node ${nodeId} execution failed`)
+      };
+      return;
+    }
+
+    // 保存结果供后续节点使用
+    if (result.data) {
+      state.previousResults.set(nodeId, result.data);
+    }
+
+    // 失败时只激活错误分支；否则激活输出项所选的全部分支（以首项的分支为主分支）
+    const routes = this.routeItems(node, execution, outs);
+    state.items.set(nodeId, routes);
+    const branchIndexes = [...routes.keys()];
+    const branchIndex = branchIndexes[0];
+    const branchInfo = branchIndexes.length > 1 ? { branchIndex, branchIndexes } : { branchIndex };
+
+    // 所选分支上有回边：重置环路后从回边目标重新运行（超过迭代上限则运行失败）
+    // 本节点的其余出边不结算，留到不再走回边的那次执行
+    const backEdges = outs.filter(o => o.backEdge && routes.has(o.branchIndex));
+    if (backEdges.length > 0) {
+      if (!this.followBackEdges(nodeId, backEdges, state)) return;
+      this.emit('branchSelected', {
+        nodeId,
+        ...branchInfo,
+        ...this.describeBranch(backEdges, routes)
+      });
+      for (const edge of backEdges) {
+        // 环路起点以回边源节点的输出作为输入
+        state.joined.set(edge.targetNodeId, [this.workflow.connections.get(edge.connectionId)!]);
+        this.enqueue(edge.targetNodeId, state);
+      }
+    } else {
+      state.checkpoints[nodeId] = {
+        data: result.data,
+        branchIndex,
+        ...(this.isDerivableFromData(result.data, routes) ? {} : { items: Object.fromEntries(routes) }),
+        startTime,
+        endTime
+      };
+      this.emit('checkpoint', { nodeId, snapshot: this.updateSnapshot(state, 'running') });
+
+      this.emit('branchSelected', {
+        nodeId,
+        ...branchInfo,
+        ...this.describeBranch(outs, routes)
+      });
+      this.settleOutgoing(outs, edge => routes.has(edge.branchIndex), state);
+    }
+
+    if (this.options.stepDelay && (state.ready.length > 0 || state.running.size > 1)) {
+      await this.delay(this.options.stepDelay);
+    }
+  }
+
+  /**
+   * 按执行模式执行节点：eachItem 依次对每个输入项执行（inputs 为该项的 json），输出项按输入顺序合并；
+   * allItems 以首项的 json 为 inputs 只执行一次，全部输入项通过 context.items 读取
+   * 任一项失败即节点失败；只有一个输入项时 data 保持节点的原始输出
+   */
+  private async executeItems(node: BaseNode, items: NodeItem[], state: RunState): Promise<ItemsExecution> {
+    if (node.getExecutionMode() === 'allItems') {
+      const result = await this.executeChecked(node, items[0]?.json ?? {}, state, { items });
+      return result.success ? this.toItemsExecution(node, result) : { result, branches: [] };
+    }
+
+    const outputItems: NodeItem[] = [];
+    const branches: number[] = [];
+    let single: NodeExecutionResult | undefined;
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+      const result = await this.executeChecked(node, item.json, state, { items, item, itemIndex: index });
+      if (!result.success) {
+        return { result, branches: [], failedItemIndex: index };
+      }
+      // 分支按本次执行的输出与设置选择
+      const branchIndex = selectBranchIndex(node, result.data);
+      for (const output of this.toOutputItems(result, item)) {
+        outputItems.push({ ...output, pairedItem: output.pairedItem ?? index });
+        branches.push(branchIndex);
+      }
+      single = result;
+    }
+
+    const data = items.length === 1 && (single!.data !== undefined || !single!.items)
+      ? single!.data
+      : NodeItemUtils.toData(outputItems);
+    return { result: { success: true, data, items: outputItems }, branches };
+  }
+
+  // 单次执行（allItems 模式或固定输出）的输出项，全部走该次执行所选的分支
+  private toItemsExecution(node: BaseNode, result: NodeExecutionResult): ItemsExecution {
+    const outputItems = this.toOutputItems(result);
+    const branchIndex = selectBranchIndex(node, result.data);
+    return {
+      result: { ...result, data: result.data ?? NodeItemUtils.toData(outputItems), items: outputItems },
+      branches: outputItems.map(() => branchIndex)
+    };
+  }
+
+  // 固定输出：保存了输出项时按其分支原样重放（多项、二进制输出与真实运行一致），否则由 pinnedData 还原
+  private toPinnedExecution(node: BaseNode): ItemsExecution {
+    const data = structuredClone(node.pinnedData);
+    if (!node.pinnedItems) {
+      return this.toItemsExecution(node, { success: true, data });
+    }
+    const entries = Object.entries(structuredClone(node.pinnedItems))
+      .flatMap(([index, items]) => items.map(item => [Number(index), item] as const));
+    return {
+      result: { success: true, data, items: entries.map(([, item]) => item) },
+      branches: entries.map(([index]) => index)
+    };
+  }
+
+  // 一次执行的输出项：节点未返回 items 时由 data 转换（没有 data 时为一个空项），并沿用输入项的二进制部分
+  private toOutputItems(result: NodeExecutionResult, inputItem?: NodeItem): NodeItem[] {
+    if (result.items) return result.items;
+    const outputs = result.data === undefined ? [{ json: {} }] : NodeItemUtils.toItems(result.data);
+    const binary = inputItem?.binary;
+    return binary ? outputs.map(output => ({ ...output, binary: output.binary ?? binary })) : outputs;
+  }
+
+  /**
+   * 输出项按分支分组：失败（走错误分支）时错误输出为错误分支上的单项；循环节点的汇总结果走 done 分支；
+   * 其余节点每一项走其所选分支，所选分支没有连接时兜底为分支 0；没有输出项时仍激活所选分支（下游收到空列表）
+   */
+  private routeItems(node: BaseNode, execution: ItemsExecution, outs: OutgoingEdge[]): Map<number, NodeItem[]> {
+    const { result, branches } = execution;
+    if (!result.success) {
+      return new Map([[ERROR_BRANCH_INDEX, NodeItemUtils.toItems(result.data)]]);
+    }
+
+    const connected = (index: number) => outs.some(o => o.branchIndex === index) ? index : 0;
+    const items = result.items ?? [];
+    if (node instanceof LoopNode) {
+      return new Map([[LOOP_DONE_BRANCH, items]]);
+    }
+
+    const routes = new Map<number, NodeItem[]>();
+    items.forEach((item, i) => {
+      const index = connected(branches[i]);
+      routes.set(index, [...(routes.get(index) || []), item]);
+    });
+    if (routes.size === 0) {
+      routes.set(connected(selectBranchIndex(node, result.data)), []);
+    }
+    return routes;
+  }
+
+  // 输出项能否由 data 还原（单个分支上 json 即 data 的单项）：能还原时检查点不重复保存项
+  private isDerivableFromData(data: unknown, routes: Map<number, NodeItem[]>): boolean {
+    if (routes.size !== 1) return false;
+    const [items] = routes.values();
+    return items.length === 1 && !items[0].binary && items[0].json === data;
+  }
+
+  /**
+   * 执行循环节点：解析数组后对每个元素运行一次循环体（顺序或有限并发），
+   * 循环体末端节点的输出按元素顺序收集为 done 分支的 items
+   * 循环体节点在外层运行中只经 body 分支可达，body 分支不会被激活，因此不会被外层调度
+   */
+  private async executeLoop(
+    node: LoopNode,
+    inputs: Record<string, unknown>,
+    state: RunState,
+    itemContext: NodeItemContext
+  ): Promise<NodeExecutionResult> {
+    const resolved = await this.executeWithRetry(node, inputs, state.previousResults, itemContext);
+    if (!resolved.success) {
+      return resolved;
+    }
+
+    const { items } = resolved.data as LoopNodeOutput;
+    const body = this.getLoopBody(node.id, state);
+    const concurrency = node.settings.mode === 'parallel'
+      ? Math.max(1, Math.floor(node.settings.concurrency ?? DEFAULT_MAX_CONCURRENCY))
+      : 1;
+    const outputs: unknown[] = new Array(items.length);
+    let nextIndex = 0;
+    let failure: Error | undefined;
+
+    const worker = async () => {
+      while (failure === undefined && nextIndex < items.length && !this.options.signal?.aborted) {
+        const index = nextIndex++;
+        const iteration = await this.runLoopIteration(node, body, items[index], index, state);
+        if (iteration.status === 'failed') {
+          failure ??= new Error(
+            `Loop ${node.id} failed at item ${index}: ${iteration.error?.message ?? `node ${iteration.failedNodeId} failed`}`
+          );
+          return;
+        }
+        outputs[index] = body.sinkNodeIds.length === 0
+          ? items[index]
+          : this.collectLoopOutput(body.sinkNodeIds, iteration.previousResults);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+    if (failure) {
+      return { success: false, error: failure };
+    }
+    if (this.options.signal?.aborted) {
+      return { success: false, error: new ExecutionAbortedError() };
+    }
+    const output: LoopNodeOutput = { items: outputs, count: outputs.length };
+    return { success: true, data: output };
+  }
+
+  // 用嵌套运行器执行一次循环体：循环节点以检查点形式恢复，只激活 body 分支
+  private async runLoopIteration(
+    node: LoopNode,
+    body: LoopBody,
+    item: unknown,
+    index: number,
+    state: RunState
+  ): Promise<WorkflowRunResult> {
+    // 嵌套运行器为每次迭代创建节点副本，并发迭代不会互相覆盖 settings
+    const subWorkflow = Object.create(this.workflow) as BaseWorkflow;
+    subWorkflow.nodes = new Map([[node.id, node as BaseNode]]);
+    for (const nodeId of body.nodeIds) {
+      subWorkflow.nodes.set(nodeId, this.workflow.nodes.get(nodeId)!);
+    }
+    subWorkflow.connections = new Map(
+      this.getValidConnections()
+        .filter(c => subWorkflow.nodes.has(c.sourceNodeId) && body.nodeIds.has(c.targetNodeId))
+        .filter(c => c.sourceNodeId !== node.id || (c.branchIndex ?? 0) === LOOP_BODY_BRANCH)
+        .map(c => [c.id, c])
+    );
+
+    const now = Date.now();
+    const childEvents = new ExecutionEventBus();
+    const child = new WorkflowRunner(subWorkflow, {
+      signal: this.options.signal,
+      maxConcurrency: this.getMaxConcurrency(),
+      usePinnedData: this.options.usePinnedData,
+      validateSchemas: this.options.validateSchemas,
+      events: childEvents,
+      breakpoints: this.breakpoints,
+      stepping: this.stepping,
+      inputs: this.workflowInputs,
+      variables: this.variables,
+      credentials: this.options.credentials,
+      respond: this.options.respond,
+      environment: this.environment,
+      parentResults: state.previousResults,
+      loop: { loopNodeId: node.id, item, index },
+      snapshot: {
+        version: 1,
+        workflowId: this.workflow.config.id,
+        status: 'running',
+        checkpoints: {
+          [node.id]: { data: { item, index }, branchIndex: LOOP_BODY_BRANCH, startTime: now, endTime: now }
+        },
+        updatedAt: new Date(now).toISOString()
+      }
+    });
+
+    // 循环体节点的事件转发到外层总线（跳过以检查点恢复的循环节点自身）
+    const forward = <K extends ExecutionEventName>(event: K) =>
+      childEvents.on(event, payload => {
+        if ((payload as { nodeId?: string }).nodeId !== node.id) {
+          this.emit(event, payload);
+        }
+      });
+    const subscriptions = LOOP_FORWARDED_EVENTS.map(event => forward(event));
+
+    this.children.add(child);
+    if (this.paused) child.pause();
+    try {
+      return await child.run();
+    } finally {
+      this.children.delete(child);
+      subscriptions.forEach(unsubscribe => unsubscribe());
+    }
+  }
+
+  // 计算循环体：沿出边从 body 分支目标遍历（不经过循环节点本身）
+  private getLoopBody(loopNodeId: string, state: RunState): LoopBody {
+    const nodeIds = new Set<string>();
+    const queue = (state.outgoing.get(loopNodeId) || [])
+      .filter(edge => edge.branchIndex === LOOP_BODY_BRANCH)
+      .map(edge => edge.targetNodeId);
+
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (nodeId === loopNodeId || nodeIds.has(nodeId)) continue;
+      nodeIds.add(nodeId);
+      for (const edge of state.outgoing.get(nodeId) || []) {
+        if (!edge.backEdge) queue.push(edge.targetNodeId);
+      }
+    }
+
+    const sinkNodeIds = [...nodeIds].filter(nodeId =>
+      (state.outgoing.get(nodeId) || []).every(edge => edge.backEdge)
+    );
+    return { nodeIds, sinkNodeIds };
+  }
+
+  // 一次迭代的结果：单个末端节点时为其输出，多个时按节点 ID 分组
+  private collectLoopOutput(sinkNodeIds: string[], previousResults: Map<string, unknown>): unknown {
+    if (sinkNodeIds.length === 1) {
+      return previousResults.get(sinkNodeIds[0]);
+    }
+    const output: Record<string, unknown> = {};
+    for (const nodeId of sinkNodeIds) {
+      if (previousResults.has(nodeId)) {
+        output[nodeId] = previousResults.get(nodeId);
+      }
+    }
+    return output;
+  }
+
+  /**
+   * 走回边：检查迭代上限，并重置回边目标节点开始的环路
+   * 超过上限时记录运行失败并返回 false
+   */
+  private followBackEdges(nodeId: string, backEdges: OutgoingEdge[], state: RunState): boolean {
+    for (const edge of backEdges) {
+      const connection = this.workflow.connections.get(edge.connectionId)!;
+      const limit = this.getIterationLimit(connection) ?? 0;
+      if ((state.iterations.get(edge.connectionId) ?? 0) >= limit) {
+        state.failure ??= { nodeId, error: new WorkflowIterationLimitError(connection, limit) };
+        return false;
+      }
+    }
+
+    for (const edge of backEdges) {
+      const count = (state.iterations.get(edge.connectionId) ?? 0) + 1;
+      this.resetCycle(edge.targetNodeId, state);
+      state.iterations.set(edge.connectionId, count);
+    }
+    return true;
+  }
+
+  /**
+   * 重置从环路起点沿前向连接可达的全部节点，使其在下一次迭代中重新汇合、执行
+   * 环路内部回边的计数一并清零（嵌套环路每次外层迭代重新计数）；检查点被移除，从快照恢复时环路从头开始
+   */
+  private resetCycle(headNodeId: string, state: RunState): void {
+    const region = new Set<string>();
+    const queue = [headNodeId];
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (region.has(nodeId)) continue;
+      region.add(nodeId);
+      for (const edge of state.outgoing.get(nodeId) || []) {
+        if (!edge.backEdge) queue.push(edge.targetNodeId);
+      }
+    }
+
+    for (const nodeId of region) {
+      state.joined.delete(nodeId);
+      state.epochs.set(nodeId, (state.epochs.get(nodeId) ?? 0) + 1);
+      delete state.checkpoints[nodeId];
+      delete state.restorable[nodeId];
+      // 区域外已结束的入边保持结算结果，区域内的入边重新等待
+      const pending = (state.incoming.get(nodeId) || []).filter(connection =>
+        region.has(connection.sourceNodeId) || !state.activeEdges.has(connection.id)
+      );
+      state.remainingInputs.set(nodeId, pending.length);
+      for (const edge of state.outgoing.get(nodeId) || []) {
+        state.activeEdges.delete(edge.connectionId);
+        if (edge.backEdge && region.has(edge.targetNodeId)) {
+          state.iterations.delete(edge.connectionId);
+        }
+      }
+    }
+    state.ready = state.ready.filter(nodeId => !region.has(nodeId));
+  }
+
+  // 节点就绪：有检查点的直接恢复，否则进入就绪队列
+  private enqueue(nodeId: string, state: RunState): void {
+    const checkpoint = state.restorable[nodeId];
+    if (!checkpoint) {
+      state.ready.push(nodeId);
+      return;
+    }
+
+    // 输出项：检查点未单独保存时由 data 还原到所选分支
+    const routes = checkpoint.items
+      ? new Map(Object.entries(checkpoint.items).map(([index, items]) => [Number(index), items]))
+      : new Map([[checkpoint.branchIndex, NodeItemUtils.toItems(checkpoint.data)]]);
+    state.items.set(nodeId, routes);
+
+    // 走过错误分支的节点恢复为失败结果，下游仍读取其错误输出
+    const result: NodeExecutionResult = checkpoint.branchIndex === ERROR_BRANCH_INDEX
+      ? {
+          success: false,
+          data: checkpoint.data,
+          error: new Error((checkpoint.data as NodeErrorOutput | undefined)?.error.message ?? `Node ${nodeId} execution failed`)
+        }
+      : { success: true, data: checkpoint.data };
+    state.results.set(nodeId, result);
+    if (checkpoint.data) {
+      state.previousResults.set(nodeId, checkpoint.data);
+    }
+    state.checkpoints[nodeId] = checkpoint;
+    this.emit('nodeFinished', {
+      nodeId,
+      result,
+      startTime: checkpoint.startTime,
+      endTime: checkpoint.endTime,
+      restored: true
+    });
+    if (result.success) {
+      this.emit('nodeSucceeded', {
+        nodeId,
+        data: checkpoint.data,
+        startTime: checkpoint.startTime,
+        endTime: checkpoint.endTime,
+        duration: checkpoint.endTime - checkpoint.startTime,
+        restored: true
+      });
+    }
+
+    const outs = state.outgoing.get(nodeId) || [];
+    this.emit('branchSelected', {
+      nodeId,
+      branchIndex: checkpoint.branchIndex,
+      ...(routes.size > 1 ? { branchIndexes: [...routes.keys()] } : {}),
+      ...this.describeBranch(outs, routes)
+    });
+    this.settleOutgoing(outs, edge => routes.has(edge.branchIndex), state);
+  }
+
+  // 所选分支上的目标节点与连接，用于 branchSelected 事件
+  private describeBranch(
+    outs: OutgoingEdge[],
+    routes: Map<number, NodeItem[]>
+  ): { targetNodeIds: string[]; connectionIds: string[] } {
+    const selected = outs.filter(o => routes.has(o.branchIndex));
+    return {
+      targetNodeIds: selected.map(o => o.targetNodeId),
+      connectionIds: selected.map(o => o.connectionId)
+    };
+  }
+
+  // 校验传入的快照并返回其检查点
+  private getRestorableCheckpoints(): Record<string, NodeCheckpoint> {
+    const snapshot = this.options.snapshot;
+    if (!snapshot) return {};
+    if (snapshot.workflowId !== this.workflow.config.id) {
+      throw new Error(
+        `Snapshot belongs to workflow ${snapshot.workflowId}, cannot resume workflow ${this.workflow.config.id}`
+      );
+    }
+    return { ...snapshot.checkpoints };
+  }
+
+  // 根据当前调度状态生成快照
+  private updateSnapshot(state: RunState, status: ExecutionSnapshotStatus): ExecutionSnapshot {
+    this.snapshot = {
+      version: 1,
+      workflowId: this.workflow.config.id,
+      status,
+      checkpoints: { ...state.checkpoints },
+      failedNodeId: state.failure?.nodeId,
+      error: state.failure?.error.message,
+      variables: this.variables.getValues(),
+      staticVariables: this.variables.hasStaticChanges() ? this.variables.getStaticValues() : undefined,
+      environment: this.environment?.name,
+      updatedAt: new Date().toISOString()
+    };
+    return this.snapshot;
+  }
+
+  /**
+   * 结束节点的出边：标记激活状态并递减下游待定入边数，再按下游节点的汇合模式判断是否就绪
+   * 入边全部结束仍无激活入边的节点被跳过，并继续向下游传播
+   */
+  private settleOutgoing(
+    outs: OutgoingEdge[],
+    isActive: (edge: OutgoingEdge) => boolean,
+    state: RunState
+  ): void {
+    for (const edge of outs) {
+      // 回边不参与汇合，由 followBackEdges 处理
+      if (edge.backEdge) continue;
+      const active = isActive(edge);
+      const targetId = edge.targetNodeId;
+      state.activeEdges.set(edge.connectionId, active);
+      const remaining = (state.remainingInputs.get(targetId) || 0) - 1;
+      state.remainingInputs.set(targetId, remaining);
+
+      // 已触发的节点（waitAny / firstN）忽略后续到达的上游
+      if (state.joined.has(targetId)) continue;
+
+      const arrived = (state.incoming.get(targetId) || []).filter(connection => state.activeEdges.get(connection.id));
+      if (this.isJoinSatisfied(targetId, arrived.length, remaining)) {
+        state.joined.set(targetId, arrived);
+        this.enqueue(targetId, state);
+      } else if (remaining === 0 && arrived.length === 0) {
+        this.settleOutgoing(state.outgoing.get(targetId) || [], () => false, state);
+      }
+    }
+  }
+
+  // 根据节点的汇合模式判断是否可以执行
+  private isJoinSatisfied(nodeId: string, arrivedCount: number, remaining: number): boolean {
+    if (arrivedCount === 0) return false;
+    // 所有上游均已结束：无论何种模式，有输入即执行（未选中的分支不会再到达）
+    if (remaining === 0) return true;
+
+    const join = this.workflow.nodes.get(nodeId)?.config.join;
+    switch (join?.mode) {
+      case 'waitAny':
+        return true;
+      case 'firstN':
+        return arrivedCount >= Math.max(1, join.count ?? 1);
+      default:
+        return false;
+    }
+  }
+
+  // 放行一个停下的节点
+  private release(options: DebugResumeOptions): void {
+    const targetId = options.nodeId ?? this.halted.keys().next().value;
+    const releaseNode = targetId !== undefined ? this.halted.get(targetId) : undefined;
+    if (targetId !== undefined && releaseNode) {
+      this.halted.delete(targetId);
+      releaseNode(options);
+      return;
+    }
+
+    // 停下的节点在循环体内：交给对应的嵌套运行器
+    for (const child of this.children) {
+      child.stepping = this.stepping;
+      if (child.getHaltedNodeIds().some(id => options.nodeId === undefined || id === options.nodeId)) {
+        child.release(options);
+        return;
+      }
+    }
+  }
+
+  // 在节点执行前停下：发布全部输入项与解析后的设置，等待调试器放行（或运行被中止），返回编辑后的输入项
+  private haltBeforeNode(
+    node: BaseNode,
+    items: NodeItem[],
+    previousResults: Map<string, unknown>
+  ): Promise<NodeItem[]> {
+    const signal = this.options.signal;
+    if (signal?.aborted) {
+      return Promise.resolve(items);
+    }
+
+    const inputs = items[0]?.json ?? {};
+    let settings: Record<string, unknown> = node.originalSettings;
+    try {
+      settings = node.resolveDynamicSettings(inputs, {
+        workflowId: this.workflow.config.id,
+        nodeId: node.id,
+        previousResults,
+        originalSettings: node.originalSettings,
+        loop: this.options.loop,
+        workflowInputs: this.workflowInputs,
+        variables: this.variables,
+        credentials: this.options.credentials,
+        environment: this.environment?.values,
+        settingOverrides: this.environment?.overrides?.[node.id]
+      });
+    } catch (error) {
+      console.warn(`Failed to resolve dynamic settings for node ${node.id}:`, error);
+    }
+
+    return new Promise(resolve => {
+      const onAbort = () => {
+        this.halted.delete(node.id);
+        resolve(items);
+      };
+      this.halted.set(node.id, edit => {
+        signal?.removeEventListener('abort', onAbort);
+        if (edit.items) {
+          resolve(edit.items.map((json, i) => ({ ...items[i], json })));
+        } else if (edit.inputs) {
+          resolve([{ ...items[0], json: edit.inputs }, ...items.slice(1)]);
+        } else {
+          resolve(items);
+        }
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.emit('breakpointHit', {
+        nodeId: node.id,
+        inputs,
+        items: items.map(item => item.json),
+        settings,
+        stepping: !this.breakpoints.has(node.id)
+      });
+    });
+  }
+
+  // 等待 resume()；中止信号同样会唤醒，以便运行尽快结束
+  private waitForResume(): Promise<void> {
+    return new Promise(resolve => {
+      const signal = this.options.signal;
+      if (signal?.aborted || !this.paused) {
+        resolve();
+        return;
+      }
+      const wake = () => {
+        signal?.removeEventListener('abort', wake);
+        resolve();
+      };
+      this.resumeWaiter = wake;
+      signal?.addEventListener('abort', wake, { once: true });
+    });
+  }
+
+  // 可被运行中止信号提前结束的等待
+  private delay(ms: number): Promise<void> {
+    const signal = this.options.signal;
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  // 最大并发数：运行器选项优先，其次工作流配置
+  private getMaxConcurrency(): number {
+    const value = this.options.maxConcurrency ?? this.workflow.config.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY;
+    return Number.isFinite(value) && value >= 1 ? Math.floor(value) : 1;
+  }
+
+  // 在节点边界校验输入与输出：输入不符合时不执行节点，输出不符合时节点失败
+  private async executeChecked(
+    node: BaseNode,
+    inputs: Record<string, unknown>,
+    state: RunState,
+    itemContext: NodeItemContext
+  ): Promise<NodeExecutionResult> {
+    const validate = this.options.validateSchemas !== false;
+    const inputError = validate ? NodePortUtils.validateInput(node, inputs) : undefined;
+    if (inputError) {
+      return { success: false, error: inputError };
+    }
+
+    const result = node instanceof LoopNode
+      ? await this.executeLoop(node, inputs, state, itemContext)
+      : await this.executeWithRetry(node, inputs, state.previousResults, itemContext);
+    const outputError = validate && result.success ? NodePortUtils.validateOutput(node, result.data) : undefined;
+    return outputError ? { ...result, success: false, data: undefined, error: outputError } : result;
+  }
+
+  // 按节点配置的重试策略执行；耗尽次数或遇到不可重试的结果时返回最后一次结果
+  private async executeWithRetry(
+    node: BaseNode,
+    inputs: Record<string, unknown>,
+    previousResults: Map<string, unknown>,
+    itemContext: NodeItemContext
+  ): Promise<NodeExecutionResult> {
+    const policy = node.config.retry;
+    const maxAttempts = RetryPolicyUtils.getMaxAttempts(policy);
+
+    let result = await this.executeNode(node, inputs, previousResults, itemContext);
+    for (let attempt = 2; policy && attempt <= maxAttempts; attempt++) {
+      if (!RetryPolicyUtils.shouldRetry(policy, result) || this.options.signal?.aborted) break;
+
+      const delay = RetryPolicyUtils.getDelay(policy, attempt - 1);
+      this.emit('nodeRetrying', { nodeId: node.id, attempt, maxAttempts, delay, error: result.error });
+      await this.delay(delay);
+
+      result = await this.executeNode(node, inputs, previousResults, itemContext);
+    }
+    return result;
+  }
+
+  // 执行单个节点：解析动态设置后调用 execute，异常统一转换为失败结果
+  private async executeNode(
+    node: BaseNode,
+    inputs: Record<string, unknown>,
+    previousResults: Map<string, unknown>,
+    itemContext: NodeItemContext
+  ): Promise<NodeExecutionResult> {
+    // 每次执行使用独立的控制器：跟随运行的中止信号，并在超时后单独触发
+    const controller = new AbortController();
+    const runSignal = this.options.signal;
+    const onRunAbort = () => controller.abort(new ExecutionAbortedError());
+    if (runSignal?.aborted) {
+      onRunAbort();
+    } else {
+      runSignal?.addEventListener('abort', onRunAbort, { once: true });
+    }
+
+    const timeout = node.config.timeout;
+    const timer = timeout && timeout > 0
+      ? setTimeout(() => controller.abort(new NodeTimeoutError(node.id, timeout)), timeout)
+      : undefined;
+
+    const context: NodeExecutionContext = {
+      workflowId: this.workflow.config.id,
+      nodeId: node.id,
+      previousResults,
+      originalSettings: node.originalSettings,
+      signal: controller.signal,
+      events: this.events,
+      loop: this.options.loop,
+      workflowInputs: this.workflowInputs,
+      variables: this.variables,
+      credentials: this.options.credentials,
+      environment: this.environment?.values,
+      settingOverrides: this.environment?.overrides?.[node.id],
+      respond: this.options.respond,
+      ...itemContext,
+      ...(this.options.trigger?.nodeId === node.id ? { trigger: this.options.trigger.data ?? {} } : {})
+    };
+
+    try {
+      node.settings = node.resolveDynamicSettings(inputs, context);
+    } catch (error) {
+      console.warn(`Failed to resolve dynamic settings for node ${node.id}:`, error);
+    }
+
+    // 取消或超时后立即返回失败结果，不再等待未响应信号的节点
+    const cancelled = new Promise<NodeExecutionResult>(resolve => {
+      const settle = () => resolve({ success: false, error: toError(controller.signal.reason) });
+      if (controller.signal.aborted) {
+        settle();
+      } else {
+        controller.signal.addEventListener('abort', settle, { once: true });
+      }
+    });
+
+    try {
+      const execution = node.execute(inputs, context).catch((error: unknown): NodeExecutionResult => ({
+        success: false,
+        error: toError(error)
+      }));
+      return this.redactResult(await Promise.race([execution, cancelled]));
+    } finally {
+      clearTimeout(timer);
+      runSignal?.removeEventListener('abort', onRunAbort);
+    }
+  }
+
+  // 从节点结果与错误信息中去除已解析的凭证机密，避免出现在结果、轨迹与快照中
+  private redactResult(result: NodeExecutionResult): NodeExecutionResult {
+    const vault = this.options.credentials;
+    if (!vault) return result;
+
+    const redacted: NodeExecutionResult = {
+      ...result,
+      data: vault.redact(result.data),
+      ...(result.items ? { items: vault.redact(result.items) } : {})
+    };
+    if (result.error) {
+      const message = vault.redact(result.error.message);
+      if (message !== result.error.message) {
+        redacted.error = new Error(message);
+        redacted.error.name = result.error.name;
+      }
+    }
+    return redacted;
+  }
+
+  /**
+   * 收集节点的输入项：入口节点为运行参数构成的单项；单个上游且为浅合并时逐项沿用其所连分支上的项；
+   * 其余情况按汇合配置把上游输出合并为单项（二进制部分取各上游首项的合并）
+   */
+  private collectNodeItems(node: BaseNode, joinedEdges: WorkflowConnection[], state: RunState): NodeItem[] {
+    const merge = node.config.join?.merge ?? 'shallow';
+    if (joinedEdges.length === 1 && merge === 'shallow') {
+      const connection = joinedEdges[0];
+      const items = state.items.get(connection.sourceNodeId)?.get(connection.branchIndex ?? 0) ??
+        NodeItemUtils.toItems(state.previousResults.get(connection.sourceNodeId));
+      return items.map(item => ({ ...item, json: { ...item.json } }));
+    }
+
+    const json = this.collectNodeInputs(node, joinedEdges, state.previousResults);
+    const binary = Object.assign({}, ...joinedEdges.map(connection =>
+      state.items.get(connection.sourceNodeId)?.get(connection.branchIndex ?? 0)?.[0]?.binary
+    ));
+    return [Object.keys(binary).length > 0 ? { json, binary } : { json }];
+  }
+
+  /**
+   * 收集节点输入：按汇合配置的合并策略组合触发本节点的上游输出
+   * 始终按连接声明顺序合并，保证输入与上游完成先后无关；入口节点的输入为运行参数
+   */
+  private collectNodeInputs(
+    node: BaseNode,
+    joinedEdges: WorkflowConnection[],
+    previousResults: Map<string, unknown>
+  ): Record<string, unknown> {
+    if (joinedEdges.length === 0) {
+      return { ...this.workflowInputs };
+    }
+
+    const merge = node.config.join?.merge ?? 'shallow';
+    const inputs: Record<string, unknown> = {};
+    const items: unknown[] = [];
+
+    for (const connection of joinedEdges) {
+      const sourceData = previousResults.get(connection.sourceNodeId);
+      if (sourceData === undefined) continue;
+
+      if (merge === 'namespaced') {
+        inputs[connection.sourceNodeId] = sourceData;
+      } else if (merge === 'append') {
+        items.push(sourceData);
+      } else if (sourceData && typeof sourceData === 'object') {
+        Object.assign(inputs, sourceData);
+      }
+    }
+
+    if (merge === 'append') {
+      inputs.items = items;
+    }
+    return inputs;
+  }
+
+  // 构建出边表（按连接声明顺序，包含回边）
+  private buildOutgoingMap(): Map<string, OutgoingEdge[]> {
+    const backEdgeIds = new Set(this.getBackEdges().map(({ connection }) => connection.id));
+    const outMap = new Map<string, OutgoingEdge[]>();
+    for (const connection of this.getValidConnections()) {
+      const outs = outMap.get(connection.sourceNodeId) || [];
+      outs.push({
+        connectionId: connection.id,
+        targetNodeId: connection.targetNodeId,
+        branchIndex: connection.branchIndex ?? 0,
+        backEdge: backEdgeIds.has(connection.id)
+      });
+      outMap.set(connection.sourceNodeId, outs);
+    }
+    return outMap;
+  }
+
+  // 构建入边表（不含回边）
+  private buildIncomingMap(): Map<string, WorkflowConnection[]> {
+    const inMap = new Map<string, WorkflowConnection[]>();
+    for (const connection of this.getForwardConnections()) {
+      const ins = inMap.get(connection.targetNodeId) || [];
+      ins.push(connection);
+      inMap.set(connection.targetNodeId, ins);
+    }
+    return inMap;
+  }
+
+  // 工作流中的回边（见 WorkflowGraphUtils.findBackEdges）
+  private getBackEdges(): BackEdge[] {
+    return WorkflowGraphUtils.findBackEdges(Array.from(this.workflow.nodes.keys()), this.getValidConnections());
+  }
+
+  // 去掉回边后的连接，构成有向无环图
+  private getForwardConnections(): WorkflowConnection[] {
+    const backEdgeIds = new Set(this.getBackEdges().map(({ connection }) => connection.id));
+    return this.getValidConnections().filter(connection => !backEdgeIds.has(connection.id));
+  }
+
+  // 回边的迭代上限：连接配置优先，其次工作流配置
+  private getIterationLimit(connection: WorkflowConnection): number | undefined {
+    const limit = connection.maxIterations ?? this.workflow.config.maxIterations;
+    return typeof limit === 'number' && Number.isFinite(limit) && limit >= 0 ? Math.floor(limit) : undefined;
+  }
+
+  // 两端节点均存在的连接
+  private getValidConnections(): WorkflowConnection[] {
+    return Array.from(this.workflow.connections.values()).filter(connection =>
+      this.workflow.nodes.has(connection.sourceNodeId) && this.workflow.nodes.has(connection.targetNodeId)
+    );
+  }
+
+  private emit<K extends ExecutionEventName>(event: K, payload: ExecutionEvents[K]): void {
+    this.events.emit(event, payload);
+  }
+}
+
+/**
+ * 根据节点输出选择分支（默认第 0 个）
+ * 条件节点：优先读取输出的 branchIndex；无则将布尔结果映射为 0/1
+ * 其他节点：允许通过设置 selectedBranchIndex 覆盖
+ */
+export function selectBranchIndex(node: BaseNode, data: unknown): number {
+  if (node.config.type === 'condition' && data && typeof data === 'object') {
+    const output = data as Record<string, unknown>;
+    const outBranch = output['branchIndex'];
+    if (typeof outBranch === 'number' && Number.isFinite(outBranch)) {
+      return outBranch;
+    }
+    return output['result'] ? 1 : 0;
+  }
+
+  const sbi = (node.settings as Record<string, unknown> | undefined)?.['selectedBranchIndex'] ??
+              (node.originalSettings as Record<string, unknown> | undefined)?.['selectedBranchIndex'];
+  if (typeof sbi === 'number' && Number.isFinite(sbi)) {
+    return sbi;
+  }
+  return 0;
+}
+
+// 将任意抛出值转换为 Error
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error ?? 'Unknown error'));
+}
@@ -0,0 +1,432 @@
+import type { BaseWorkflow } from '../abstract/BaseWorkflow';
+import type { TimerCatchUpPolicy, TimerTriggerSettings } from '../nodes/TimerTriggerNode';
+import { CronExpression } from './CronExpression';
+import { WorkflowEnvironmentUtils } from './WorkflowEnvironment';
+import { WorkflowRunner, type WorkflowRunResult, type WorkflowRunnerOptions } from './WorkflowRunner';
+
+/**
+ * 调度器使用的时钟
+ * 默认为系统时钟；测试时注入 ManualClock，由测试推进时间，调度结果与真实时间无关
+ */
+export interface SchedulerClock {
+  now(): number;
+  setTimer(callback: () => void, delay: number): unknown;
+  clearTimer(handle: unknown): void;
+}
+
+// 系统时钟
+export class SystemClock implements SchedulerClock {
+  public now(): number {
+    return Date.now();
+  }
+
+  public setTimer(callback: () => void, delay: number): unknown {
+    return setTimeout(callback, delay);
+  }
+
+  public clearTimer(handle: unknown): void {
+    clearTimeout(handle as ReturnType<typeof setTimeout>);
+  }
+}
+
+// 手动推进的时钟：advance 把时间前进指定毫秒，并按到期顺序执行其间的定时器
+export class ManualClock implements SchedulerClock {
+  private time: number;
+  private nextId = 1;
+  private readonly timers = new Map<number, { at: number; callback: () => void }>();
+
+  constructor(startTime = 0) {
+    this.time = startTime;
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public setTimer(callback: () => void, delay: number): unknown {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + Math.max(0, delay), callback });
+    return id;
+  }
+
+  public clearTimer(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  public advance(ms: number): void {
+    const target = this.time + ms;
+    for (;;) {
+      let due: [number, { at: number; callback: () => void }] | undefined;
+      for (const entry of this.timers) {
+        if (entry[1].at <= target && (!due || entry[1].at < due[1].at)) due = entry;
+      }
+      if (!due) break;
+      this.timers.delete(due[0]);
+      this.time = due[1].at;
+      due[1].callback();
+    }
+    this.time = target;
+  }
+}
+
+/**
+ * 调度状态存储
+ * 保存每个定时触发节点（键为 workflowId:nodeId）最近一次触发的计划时间，调度器重启后据此补跑错过的计划
+ */
+export interface SchedulerStateStore {
+  load(): Promise<Record<string, number>>;
+  save(state: Record<string, number>): Promise<void>;
+}
+
+// 内存存储：进程内保留（默认）
+export class MemorySchedulerStateStore implements SchedulerStateStore {
+  private state: Record<string, number> = {};
+
+  public async load(): Promise<Record<string, number>> {
+    return { ...this.state };
+  }
+
+  public async save(state: Record<string, number>): Promise<void> {
+    this.state = { ...state };
+  }
+}
+
+// 注册工作流时的运行选项（传给每次调度运行的 WorkflowRunner）
+export type ScheduledWorkflowOptions = Pick<
+  WorkflowRunnerOptions,
+  'inputs' | 'environment' | 'credentials' | 'staticVariables' | 'events' | 'maxConcurrency' | 'validateSchemas'
+>;
+
+// 一次调度运行
+export interface ScheduledRun {
+  workflowId: string;
+  nodeId: string;
+  // 计划时间与实际触发时间
+  scheduledTime: number;
+  firedAt: number;
+  // 补跑错过的计划
+  catchUp: boolean;
+}
+
+// 调度运行的结果：run() 抛出（如运行参数不符合声明）时只有 error
+export interface ScheduledRunOutcome {
+  result?: WorkflowRunResult;
+  error?: Error;
+}
+
+// 调度器选项
+export interface WorkflowSchedulerOptions {
+  clock?: SchedulerClock;
+  store?: SchedulerStateStore;
+  // 每次调度运行结束后调用
+  onRunFinished?: (run: ScheduledRun, outcome: ScheduledRunOutcome) => void;
+}
+
+// 定时触发节点的调度状态（供界面与监控查看）
+export interface ScheduledTriggerInfo {
+  workflowId: string;
+  nodeId: string;
+  nextRunAt?: number;
+  // 等待补跑的计划时间
+  pending: number[];
+  running: boolean;
+}
+
+// 单个定时触发节点的调度
+interface ScheduleEntry {
+  key: string;
+  nodeId: string;
+  next: (after: number) => number | undefined;
+  catchUp: TimerCatchUpPolicy;
+  maxCatchUp: number;
+  nextRunAt?: number;
+  timer?: unknown;
+  // 错过、等待补跑的计划时间（升序）
+  missed: number[];
+}
+
+// 已注册的工作流
+interface RegisteredWorkflow {
+  workflow: BaseWorkflow;
+  options: ScheduledWorkflowOptions;
+  entries: ScheduleEntry[];
+  running?: Promise<void>;
+}
+
+// all 策略默认最多补跑的次数
+export const DEFAULT_MAX_CATCH_UP = 10;
+
+// setTimeout 的最大延迟（约 24.8 天），更远的计划分段等待
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// 一次收集到期计划时最多检查的次数（调度器停止很久后，间隔很短的计划不逐个枚举）
+const MAX_DUE_SCAN = 10000;
+
+/**
+ * 工作流调度器
+ * 读取已注册工作流中的定时触发节点，按间隔或 cron 表达式（可指定时区）触发运行；
+ * 同一工作流不会重叠运行，运行期间到期或调度器停止期间错过的计划按节点的 catchUp 策略补跑
+ */
+export class WorkflowScheduler {
+  private readonly clock: SchedulerClock;
+  private readonly store: SchedulerStateStore;
+  private readonly options: WorkflowSchedulerOptions;
+  private readonly workflows = new Map<string, RegisteredWorkflow>();
+  private lastRuns: Record<string, number> = {};
+  private saving: Promise<void> = Promise.resolve();
+  private started = false;
+
+  constructor(options: WorkflowSchedulerOptions = {}) {
+    this.options = options;
+    this.clock = options.clock ?? new SystemClock();
+    this.store = options.store ?? new MemorySchedulerStateStore();
+  }
+
+  /**
+   * 注册工作流（同 id 的已注册工作流被替换），返回被调度的定时触发节点 id
+   * 触发节点的设置按所选环境解析；间隔为 0 且没有 cron 的节点不调度；cron 或时区无效时抛出 CronExpressionError
+   */
+  public register(workflow: BaseWorkflow, options: ScheduledWorkflowOptions = {}): string[] {
+    const entries = this.createEntries(workflow, options);
+    const previous = this.workflows.get(workflow.config.id);
+    this.unregister(workflow.config.id);
+    const registered: RegisteredWorkflow = { workflow, options, entries };
+    // 被替换的工作流仍在运行时，新的注册等它结束后才开始运行
+    registered.running = previous?.running?.finally(() => {
+      registered.running = undefined;
+      this.drain(registered);
+    });
+    this.workflows.set(workflow.config.id, registered);
+    if (this.started) {
+      this.arm(registered);
+    }
+    return entries.map(entry => entry.nodeId);
+  }
+
+  // 取消注册：不再触发新的运行，进行中的运行继续完成
+  public unregister(workflowId: string): void {
+    const registered = this.workflows.get(workflowId);
+    if (!registered) return;
+    registered.entries.forEach(entry => this.disarm(entry));
+    this.workflows.delete(workflowId);
+  }
+
+  /**
+   * 启动调度：加载调度状态，计算每个触发节点的下一次计划时间，并按策略补跑停止期间错过的计划
+   */
+  public async start(): Promise<void> {
+    if (this.started) return;
+    this.lastRuns = await this.store.load();
+    this.started = true;
+    for (const registered of this.workflows.values()) {
+      this.arm(registered);
+    }
+  }
+
+  // 停止调度并等待进行中的运行结束
+  public async stop(): Promise<void> {
+    this.started = false;
+    for (const registered of this.workflows.values()) {
+      registered.entries.forEach(entry => this.disarm(entry));
+    }
+    await this.idle();
+  }
+
+  public isRunning(): boolean {
+    return this.started;
+  }
+
+  // 等待进行中的运行（及其后的补跑）全部结束
+  public async idle(): Promise<void> {
+    for (;;) {
+      const running = [...this.workflows.values()].map(r => r.running).filter(Boolean);
+      if (running.length === 0) break;
+      await Promise.all(running);
+    }
+    await this.saving;
+  }
+
+  public getScheduledTriggers(): ScheduledTriggerInfo[] {
+    return [...this.workflows.values()].flatMap(registered =>
+      registered.entries.map(entry => ({
+        workflowId: registered.workflow.config.id,
+        nodeId: entry.nodeId,
+        nextRunAt: entry.nextRunAt,
+        pending: [...entry.missed],
+        running: registered.running !== undefined
+      }))
+    );
+  }
+
+  // 解析工作流中的定时触发节点
+  private createEntries(workflow: BaseWorkflow, options: ScheduledWorkflowOptions): ScheduleEntry[] {
+    const environment = WorkflowEnvironmentUtils.resolve(workflow.config, options.environment);
+    const entries: ScheduleEntry[] = [];
+    for (const node of workflow.nodes.values()) {
+      if (node.config.type !== 'timer-trigger') continue;
+
+      const settings = node.resolveDynamicSettings({}, {
+        workflowId: workflow.config.id,
+        nodeId: node.id,
+        previousResults: new Map(),
+        originalSettings: node.originalSettings,
+        environment: environment?.values,
+        settingOverrides: environment?.overrides?.[node.id]
+      }) as TimerTriggerSettings;
+
+      let next: ScheduleEntry['next'];
+      if (settings.cron) {
+        const cron = CronExpression.parse(settings.cron, settings.timezone);
+        next = after => cron.next(after);
+      } else {
+        const interval = Number(settings.interval);
+        if (!Number.isFinite(interval) || interval <= 0) continue;
+        next = after => after + interval;
+      }
+      entries.push({
+        key: `${workflow.config.id}:${node.id}`,
+        nodeId: node.id,
+        next,
+        catchUp: settings.catchUp ?? 'skip',
+        maxCatchUp: Math.max(1, Math.floor(settings.maxCatchUp ?? DEFAULT_MAX_CATCH_UP)),
+        missed: []
+      });
+    }
+    return entries;
+  }
+
+  // 计算工作流各触发节点的下一次计划：上次触发之后、当前时间之前的计划视为错过
+  private arm(registered: RegisteredWorkflow): void {
+    const now = this.clock.now();
+    for (const entry of registered.entries) {
+      entry.nextRunAt = entry.next(this.lastRuns[entry.key] ?? now);
+      this.addMissed(entry, this.collectDue(entry, now));
+      this.setTimer(registered, entry);
+    }
+    this.drain(registered);
+  }
+
+  private disarm(entry: ScheduleEntry): void {
+    if (entry.timer !== undefined) {
+      this.clock.clearTimer(entry.timer);
+      entry.timer = undefined;
+    }
+  }
+
+  private setTimer(registered: RegisteredWorkflow, entry: ScheduleEntry): void {
+    this.disarm(entry);
+    if (entry.nextRunAt === undefined) return;
+    const delay = Math.min(Math.max(0, entry.nextRunAt - this.clock.now()), MAX_TIMER_DELAY);
+    entry.timer = this.clock.setTimer(() => this.fire(registered, entry), delay);
+  }
+
+  // 定时器到期：最近到期的计划立即运行（工作流正在运行时视为错过），更早到期的计划视为错过
+  private fire(registered: RegisteredWorkflow, entry: ScheduleEntry): void {
+    entry.timer = undefined;
+    if (!this.started) return;
+
+    const due = this.collectDue(entry, this.clock.now());
+    const current = due.pop();
+    this.addMissed(entry, due);
+    if (current !== undefined) {
+      if (registered.running) {
+        this.addMissed(entry, [current]);
+      } else {
+        this.startRun(registered, entry, current, false);
+      }
+    }
+    this.setTimer(registered, entry);
+  }
+
+  // 取出到期（不晚于 now）的计划时间并推进 nextRunAt；只保留最近的若干个
+  private collectDue(entry: ScheduleEntry, now: number): number[] {
+    const due: number[] = [];
+    let scanned = 0;
+    while (entry.nextRunAt !== undefined && entry.nextRunAt <= now) {
+      if (++scanned > MAX_DUE_SCAN) {
+        entry.nextRunAt = entry.next(now);
+        break;
+      }
+      due.push(entry.nextRunAt);
+      if (due.length > entry.maxCatchUp + 1) due.shift();
+      entry.nextRunAt = entry.next(entry.nextRunAt);
+    }
+    return due;
+  }
+
+  // 按补跑策略记录错过的计划
+  private addMissed(entry: ScheduleEntry, times: number[]): void {
+    if (times.length === 0) return;
+    switch (entry.catchUp) {
+      case 'once':
+        entry.missed = [times[times.length - 1]];
+        break;
+      case 'all':
+        entry.missed = [...entry.missed, ...times].slice(-entry.maxCatchUp);
+        break;
+      default:
+        break;
+    }
+  }
+
+  // 工作流空闲时补跑最早错过的计划
+  private drain(registered: RegisteredWorkflow): void {
+    if (!this.started || registered.running || this.workflows.get(registered.workflow.config.id) !== registered) return;
+    let earliest: ScheduleEntry | undefined;
+    for (const entry of registered.entries) {
+      if (entry.missed.length > 0 && (!earliest || entry.missed[0] < earliest.missed[0])) {
+        earliest = entry;
+      }
+    }
+    if (earliest) {
+      this.startRun(registered, earliest, earliest.missed.shift()!, true);
+    }
+  }
+
+  private startRun(registered: RegisteredWorkflow, entry: ScheduleEntry, scheduledTime: number, catchUp: boolean): void {
+    const run: ScheduledRun = {
+      workflowId: registered.workflow.config.id,
+      nodeId: entry.nodeId,
+      scheduledTime,
+      firedAt: this.clock.now(),
+      catchUp
+    };
+    this.recordRun(entry, scheduledTime);
+
+    registered.running = this.execute(registered, run).finally(() => {
+      registered.running = undefined;
+      this.drain(registered);
+    });
+  }
+
+  private async execute(registered: RegisteredWorkflow, run: ScheduledRun): Promise<void> {
+    let outcome: ScheduledRunOutcome;
+    try {
+      const runner = new WorkflowRunner(registered.workflow, {
+        ...registered.options,
+        trigger: {
+          nodeId: run.nodeId,
+          data: { scheduledTime: run.scheduledTime, firedAt: run.firedAt, catchUp: run.catchUp }
+        }
+      });
+      outcome = { result: await runner.run() };
+    } catch (error) {
+      outcome = { error: error instanceof Error ? error : new Error(String(error)) };
+    }
+
+    try {
+      this.options.onRunFinished?.(run, outcome);
+    } catch (error) {
+      console.warn(`Scheduler onRunFinished callback threw for workflow ${run.workflowId}:`, error);
+    }
+  }
+
+  // 记录触发的计划时间（按顺序保存；保存失败只记录，不影响调度）
+  private recordRun(entry: ScheduleEntry, scheduledTime: number): void {
+    this.lastRuns[entry.key] = Math.max(this.lastRuns[entry.key] ?? scheduledTime, scheduledTime);
+    const state = { ...this.lastRuns };
+    this.saving = this.saving
+      .then(() => this.store.save(state))
+      .catch(error => console.warn('Failed to save scheduler state:', error));
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * 静态变量存储适配器
+ * 静态变量属于工作流本身（如"上次处理的订单 ID"），跨运行保留；可实现为文件、数据库或 KV 存储
+ */
+export interface StaticVariableStore {
+  load(workflowId: string): Promise<Record<string, unknown>>;
+  save(workflowId: string, variables: Record<string, unknown>): Promise<void>;
+}
+
+// 内存存储：进程内跨运行保留（默认用于测试与服务端单实例）
+export class MemoryStaticVariableStore implements StaticVariableStore {
+  private readonly data = new Map<string, Record<string, unknown>>();
+
+  public async load(workflowId: string): Promise<Record<string, unknown>> {
+    return structuredClone(this.data.get(workflowId) ?? {});
+  }
+
+  public async save(workflowId: string, variables: Record<string, unknown>): Promise<void> {
+    this.data.set(workflowId, structuredClone(variables));
+  }
+}
+
+// 浏览器 localStorage 存储：值需可 JSON 序列化
+export class LocalStorageStaticVariableStore implements StaticVariableStore {
+  private readonly prefix: string;
+
+  constructor(prefix = 'workflow-static:') {
+    this.prefix = prefix;
+  }
+
+  public async load(workflowId: string): Promise<Record<string, unknown>> {
+    const json = localStorage.getItem(this.prefix + workflowId);
+    return json ? JSON.parse(json) as Record<string, unknown> : {};
+  }
+
+  public async save(workflowId: string, variables: Record<string, unknown>): Promise<void> {
+    localStorage.setItem(this.prefix + workflowId, JSON.stringify(variables));
+  }
+}
+
+// 写入变量的选项
+export interface SetVariableOptions {
+  // 写入静态变量：运行成功完成后通过存储适配器保存，下次运行仍可读取
+  persist?: boolean;
+}
+
+/**
+ * 一次运行的变量作用域
+ * 运行变量只在本次运行内有效；静态变量在运行开始时从存储加载，同名时运行变量优先
+ * 节点通过 NodeExecutionContext.variables 读写，表达式通过 {{$vars.name}} 读取
+ */
+export class WorkflowVariables {
+  private readonly values: Record<string, unknown>;
+  private readonly staticValues: Record<string, unknown>;
+  private staticChanged: boolean;
+
+  constructor(
+    staticValues: Record<string, unknown> = {},
+    values: Record<string, unknown> = {},
+    staticChanged = false
+  ) {
+    this.staticValues = { ...staticValues };
+    this.values = { ...values };
+    this.staticChanged = staticChanged;
+  }
+
+  public get(name: string): unknown {
+    return name in this.values ? this.values[name] : this.staticValues[name];
+  }
+
+  public has(name: string): boolean {
+    return name in this.values || name in this.staticValues;
+  }
+
+  public set(name: string, value: unknown, options: SetVariableOptions = {}): void {
+    if (options.persist) {
+      this.staticValues[name] = value;
+      delete this.values[name];
+      this.staticChanged = true;
+    } else {
+      this.values[name] = value;
+    }
+  }
+
+  // 删除变量（同名的静态变量一并删除）
+  public delete(name: string): void {
+    delete this.values[name];
+    if (name in this.staticValues) {
+      delete this.staticValues[name];
+      this.staticChanged = true;
+    }
+  }
+
+  // 合并视图：静态变量被同名运行变量覆盖，即表达式中的 $vars
+  public toJSON(): Record<string, unknown> {
+    return { ...this.staticValues, ...this.values };
+  }
+
+  public getValues(): Record<string, unknown> {
+    return { ...this.values };
+  }
+
+  public getStaticValues(): Record<string, unknown> {
+    return { ...this.staticValues };
+  }
+
+  // 本次运行是否修改了静态变量
+  public hasStaticChanges(): boolean {
+    return this.staticChanged;
+  }
+}
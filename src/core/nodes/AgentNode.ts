@@ -1,5 +1,7 @@
-import { BaseNode, type NodeExecutionContext, type NodeExecutionResult } from '../abstract/BaseNode';
+import { z } from 'zod';
+import { BaseNode, type NodeExecutionContext, type NodeExecutionResult, type NodeSchemas } from '../abstract/BaseNode';
 import { ToolManager, type Tool, type ToolCall, type LLMProvider } from '../types/Tool';
+import { SchemaUtils } from '../utils/SchemaUtils';
 
 // Agent节点的输入类型
 export interface AgentNodeInput extends Record<string, unknown> {
@@ -7,6 +9,11 @@ export interface AgentNodeInput extends Record<string, unknown> {
   context?: Record<string, unknown>;
 }
 
+export const AgentNodeInputSchema = z.looseObject({
+  message: z.string().optional(),
+  context: z.record(z.string(), z.unknown()).optional()
+});
+
 // Agent节点的输出类型
 export interface AgentNodeOutput extends Record<string, unknown> {
   response: string;
@@ -18,6 +25,16 @@ export interface AgentNodeOutput extends Record<string, unknown> {
   };
 }
 
+export const AgentNodeOutputSchema = z.object({
+  response: z.string(),
+  toolCalls: z.array(z.looseObject({ toolId: z.string() })).optional(),
+  metadata: z.object({
+    tokensUsed: z.number(),
+    executionTime: z.number(),
+    toolsUsed: z.number().optional()
+  })
+});
+
 // Agent节点的设置类型
 export interface AgentNodeSettings extends Record<string, unknown> {
   systemPrompt: string;
@@ -26,8 +43,22 @@ export interface AgentNodeSettings extends Record<string, unknown> {
   maxToolCalls?: number;
 }
 
+// 设置的校验模式（在表达式解析前校验，值可为表达式模板）
+export const AgentNodeSettingsSchema = z.object({
+  systemPrompt: z.string(),
+  model: z.string().min(1),
+  enableTools: z.boolean().optional(),
+  maxToolCalls: SchemaUtils.orExpression(z.number().int().min(0)).optional()
+});
+
 // Agent节点实现
 export class AgentNode extends BaseNode<AgentNodeInput, AgentNodeOutput, AgentNodeSettings> {
+  public static schemas: NodeSchemas = {
+    input: AgentNodeInputSchema,
+    output: AgentNodeOutputSchema,
+    settings: AgentNodeSettingsSchema
+  };
+
   private toolManager: ToolManager;
   private llmProvider?: LLMProvider;
 
@@ -83,7 +114,8 @@ export class AgentNode extends BaseNode<AgentNodeInput, AgentNodeOutput, AgentNo
             systemPrompt: this.settings.systemPrompt,
             model: this.settings.model,
             tools: this.getTools(),
-            maxTokens: 2000
+            maxTokens: 2000,
+            signal: context.signal
           }
         );
 
@@ -96,6 +128,7 @@ export class AgentNode extends BaseNode<AgentNodeInput, AgentNodeOutput, AgentNo
           const callsToProcess = llmResult.toolCalls.slice(0, maxCalls);
 
           for (const toolCall of callsToProcess) {
+            context.signal?.throwIfAborted();
             const toolResult = await this.toolManager.executeTool(
               toolCall.toolId,
               toolCall.input,
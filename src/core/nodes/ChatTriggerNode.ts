@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { BaseNode, type NodeExecutionContext, type NodeExecutionResult, type NodeSchemas } from '../abstract/BaseNode';
+import type { WorkflowInputDefinition } from '../abstract/BaseWorkflow';
+
+// 聊天触发节点的输入类型
+export type ChatTriggerInput = Record<string, unknown>;
+
+export const ChatTriggerInputSchema = z.record(z.string(), z.unknown());
+
+// 聊天触发节点的输出类型：message 可直接作为 Agent 节点的输入
+export interface ChatTriggerOutput extends Record<string, unknown> {
+  message: string;
+  // 同一聊天窗口的多条消息共用的会话 id
+  sessionId?: string;
+  timestamp: number;
+}
+
+export const ChatTriggerOutputSchema = z.object({
+  message: z.string(),
+  sessionId: z.string().optional(),
+  timestamp: z.number()
+});
+
+// 聊天触发节点的设置类型
+export interface ChatTriggerSettings extends Record<string, unknown> {
+  placeholder?: string; // 聊天输入框的提示文字
+}
+
+// 设置的校验模式
+export const ChatTriggerSettingsSchema = z.object({
+  placeholder: z.string().optional()
+});
+
+// 没有聊天窗口（如执行器的开始按钮）时生成的表单字段
+export const CHAT_TRIGGER_FIELDS: WorkflowInputDefinition[] = [
+  { name: 'message', type: 'string', required: true }
+];
+
+// 聊天触发节点实现：以用户发送的一条聊天消息触发运行
+export class ChatTriggerNode extends BaseNode<ChatTriggerInput, ChatTriggerOutput, ChatTriggerSettings> {
+  public static schemas: NodeSchemas = {
+    input: ChatTriggerInputSchema,
+    output: ChatTriggerOutputSchema,
+    settings: ChatTriggerSettingsSchema
+  };
+
+  constructor(id: string, settings: ChatTriggerSettings) {
+    super(
+      {
+        id,
+        name: '聊天触发器',
+        type: 'chat-trigger'
+      },
+      settings
+    );
+  }
+
+  public async execute(
+    _inputs: ChatTriggerInput,
+    context: NodeExecutionContext
+  ): Promise<NodeExecutionResult<ChatTriggerOutput>> {
+    const { message, sessionId } = context.trigger ?? {};
+    if (typeof message !== 'string' || message.trim() === '') {
+      return {
+        success: false,
+        error: new Error('Chat trigger requires a non-empty message')
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        message,
+        ...(typeof sessionId === 'string' ? { sessionId } : {}),
+        timestamp: Date.now()
+      }
+    };
+  }
+}
@@ -1,22 +1,45 @@
-import { BaseNode, type NodeExecutionContext, type NodeExecutionResult } from '../abstract/BaseNode';
+import { z } from 'zod';
+import { BaseNode, type NodeExecutionContext, type NodeExecutionResult, type NodeSchemas } from '../abstract/BaseNode';
+import { NodeItemUtils, type NodeItem } from '../engine/NodeItems';
 
 // 代码节点的输入类型
 export interface CodeNodeInput extends Record<string, unknown> {
   data?: unknown;
 }
 
+export const CodeNodeInputSchema = z.looseObject({
+  data: z.unknown().optional()
+});
+
 // 代码节点的输出类型
 export interface CodeNodeOutput extends Record<string, unknown> {
   result: unknown;
 }
 
+export const CodeNodeOutputSchema = z.object({
+  result: z.unknown()
+});
+
 // 代码节点的设置类型
 export interface CodeNodeSettings extends Record<string, unknown> {
-  code: string; // JavaScript代码
+  // JavaScript代码，可读取 inputs（当前项的 json）、item（当前项）与 items（全部输入项），
+  // 并通过 $vars.get / $vars.set(name, value, { persist }) 读写工作流变量
+  code: string;
 }
 
+// 设置的校验模式（在表达式解析前校验，值可为表达式模板）
+export const CodeNodeSettingsSchema = z.object({
+  code: z.string().min(1)
+});
+
 // 代码节点实现
 export class CodeNode extends BaseNode<CodeNodeInput, CodeNodeOutput, CodeNodeSettings> {
+  public static schemas: NodeSchemas = {
+    input: CodeNodeInputSchema,
+    output: CodeNodeOutputSchema,
+    settings: CodeNodeSettingsSchema
+  };
+
   constructor(id: string, settings: CodeNodeSettings) {
     super(
       {
@@ -30,13 +53,12 @@ export class CodeNode extends BaseNode<CodeNodeInput, CodeNodeOutput, CodeNodeSe
 
   public async execute(
     inputs: CodeNodeInput,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _: NodeExecutionContext
+    context: NodeExecutionContext
   ): Promise<NodeExecutionResult<CodeNodeOutput>> {
     try {
       // 创建函数执行用户代码
-      const func = new Function('inputs', this.settings.code);
-      const result = func(inputs);
+      const func = new Function('inputs', '$vars', 'item', 'items', this.settings.code);
+      const result = func(inputs, context.variables, context.item, context.items ?? []);
 
       const output: CodeNodeOutput = {
         result
@@ -44,7 +66,8 @@ export class CodeNode extends BaseNode<CodeNodeInput, CodeNodeOutput, CodeNodeSe
 
       return {
         success: true,
-        data: output
+        data: output,
+        items: this.toOutputItems(result)
       };
     } catch (error) {
       return {
@@ -53,4 +76,18 @@ export class CodeNode extends BaseNode<CodeNodeInput, CodeNodeOutput, CodeNodeSe
       };
     }
   }
+
+  // 返回项（{ json, binary }）或项数组时作为输出项；allItems 模式下返回的数组每个元素为一项
+  private toOutputItems(value: unknown): NodeItem[] | undefined {
+    if (NodeItemUtils.isItem(value)) {
+      return [value];
+    }
+    if (!Array.isArray(value)) {
+      return undefined;
+    }
+    if (this.getExecutionMode() === 'allItems' || (value.length > 0 && value.every(v => NodeItemUtils.isItem(v)))) {
+      return value.map(v => NodeItemUtils.toItem(v));
+    }
+    return undefined;
+  }
 }
\ No newline at end of file
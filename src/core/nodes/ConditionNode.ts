@@ -1,4 +1,5 @@
-import { BaseNode, type NodeExecutionContext, type NodeExecutionResult } from '../abstract/BaseNode';
+import { z } from 'zod';
+import { BaseNode, type NodeExecutionContext, type NodeExecutionResult, type NodeSchemas } from '../abstract/BaseNode';
 
 // 条件节点的输入类型
 export interface ConditionNodeInput extends Record<string, unknown> {
@@ -6,6 +7,11 @@ export interface ConditionNodeInput extends Record<string, unknown> {
   condition: string;
 }
 
+export const ConditionNodeInputSchema = z.looseObject({
+  value: z.unknown().optional(),
+  condition: z.string().optional()
+});
+
 // 条件节点的输出类型
 export interface ConditionNodeOutput extends Record<string, unknown> {
   result: boolean;
@@ -13,14 +19,34 @@ export interface ConditionNodeOutput extends Record<string, unknown> {
   branchIndex?: number; // 多分支索引：false->0, true->1，或自定义映射
 }
 
+export const ConditionNodeOutputSchema = z.object({
+  result: z.boolean(),
+  value: z.unknown(),
+  branchIndex: z.number().int().optional()
+});
+
 // 条件节点的设置类型
 export interface ConditionNodeSettings extends Record<string, unknown> {
   conditionType: 'javascript' | 'simple';
   condition?: string; // JavaScript 条件表达式（当 conditionType 为 'javascript' 时使用）
+  passThrough?: boolean; // 把输入项原样输出到所选分支（按条件拆分项列表），默认输出 { result, value }
 }
 
+// 设置的校验模式（在表达式解析前校验，值可为表达式模板）
+export const ConditionNodeSettingsSchema = z.object({
+  conditionType: z.enum(['javascript', 'simple']),
+  condition: z.string().optional(),
+  passThrough: z.boolean().optional()
+});
+
 // 条件节点实现
 export class ConditionNode extends BaseNode<ConditionNodeInput, ConditionNodeOutput, ConditionNodeSettings> {
+  public static schemas: NodeSchemas = {
+    input: ConditionNodeInputSchema,
+    output: ConditionNodeOutputSchema,
+    settings: ConditionNodeSettingsSchema
+  };
+
   constructor(id: string, settings: ConditionNodeSettings) {
     super(
       {
@@ -32,10 +58,21 @@ export class ConditionNode extends BaseNode<ConditionNodeInput, ConditionNodeOut
     );
   }
 
+  // JavaScript 条件未写在设置中时从输入读取，输入必须提供 condition；原样传递时输出项为输入项而非 { result, value }
+  public getSchemas(): NodeSchemas {
+    const schemas = { ...super.getSchemas() };
+    if (this.originalSettings.conditionType === 'javascript' && !this.originalSettings.condition) {
+      schemas.input = ConditionNodeInputSchema.extend({ condition: z.string() });
+    }
+    if (this.originalSettings.passThrough) {
+      schemas.item = z.record(z.string(), z.unknown());
+    }
+    return schemas;
+  }
+
   public async execute(
     inputs: ConditionNodeInput,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _: NodeExecutionContext
+    context: NodeExecutionContext
   ): Promise<NodeExecutionResult<ConditionNodeOutput>> {
     try {
       let result: boolean;
@@ -56,7 +93,11 @@ export class ConditionNode extends BaseNode<ConditionNodeInput, ConditionNodeOut
 
       return {
         success: true,
-        data: output
+        data: output,
+        // eachItem 模式下为当前项，allItems 模式下为全部输入项
+        items: this.settings.passThrough
+          ? context.item ? [context.item] : context.items ?? [{ json: inputs }]
+          : undefined
       };
     } catch (error) {
       return {
@@ -1,4 +1,9 @@
-import { BaseNode, type NodeExecutionContext, type NodeExecutionResult } from '../abstract/BaseNode';
+import { z } from 'zod';
+import { BaseNode, type NodeExecutionContext, type NodeExecutionResult, type NodeSchemas } from '../abstract/BaseNode';
+import { CredentialError, type CredentialAuth } from '../credentials/Credentials';
+import { SchemaUtils } from '../utils/SchemaUtils';
+import { ExpressionParser } from '../utils/ExpressionParser';
+import { NodeItemUtils, type NodeItem } from '../engine/NodeItems';
 
 // HTTP请求节点的输入类型
 export interface HttpRequestInput extends Record<string, unknown> {
@@ -7,6 +12,11 @@ export interface HttpRequestInput extends Record<string, unknown> {
   params?: Record<string, unknown>;
 }
 
+export const HttpRequestInputSchema = z.looseObject({
+  data: z.unknown().optional(),
+  params: z.record(z.string(), z.unknown()).optional()
+});
+
 // HTTP请求节点的输出类型
 export interface HttpRequestOutput extends Record<string, unknown> {
   status: number;
@@ -14,17 +24,50 @@ export interface HttpRequestOutput extends Record<string, unknown> {
   success: boolean;
 }
 
+export const HttpRequestOutputSchema = z.object({
+  status: z.number().int(),
+  data: z.unknown(),
+  success: z.boolean()
+});
+
 // HTTP请求节点的设置类型
 export interface HttpRequestSettings extends Record<string, unknown> {
   url: string; // 请求URL，支持表达式如 {{$result.configNode.baseUrl}}/api/users
   method: string; // 请求方法：GET, POST, PUT, DELETE等
   headers?: Record<string, string>; // 请求头，支持表达式如 {"Authorization": "Bearer {{$result.authNode.token}}"}
   timeout: number; // 超时时间（毫秒）
-  bodyTemplate?: string; // 请求体模板，支持表达式
+  bodyTemplate?: string; // 请求体模板，支持表达式（原样插入，不做 JSON 转义）
+  body?: unknown; // 结构化请求体，值可为表达式（整段为单个表达式时保留原始类型），解析后序列化为 JSON
+  credentialId?: string; // 凭证 id：执行时从凭证保险库解析为认证请求头或查询参数，机密不写入设置
+  itemsPath?: string; // 响应体中数组的路径（如 orders 或 data.items，空字符串为响应体本身），数组的每个元素输出为一项
+  responseFormat?: 'auto' | 'text' | 'binary'; // 响应解析方式，默认按 Content-Type 解析 JSON 或文本
+  binaryProperty?: string; // 二进制响应写入输出项的属性名，默认 data
+  sendBinaryProperty?: string; // 以当前输入项的该二进制部分作为请求体发送
 }
 
+// 设置的校验模式（在表达式解析前校验，值可为表达式模板）
+export const HttpRequestSettingsSchema = z.object({
+  url: z.string().min(1),
+  method: SchemaUtils.orExpression(z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'])),
+  headers: z.record(z.string(), z.string()).optional(),
+  timeout: SchemaUtils.orExpression(z.number().positive()),
+  bodyTemplate: z.string().optional(),
+  body: z.unknown().optional(),
+  credentialId: z.string().min(1).optional(),
+  itemsPath: z.string().optional(),
+  responseFormat: z.enum(['auto', 'text', 'binary']).optional(),
+  binaryProperty: z.string().min(1).optional(),
+  sendBinaryProperty: z.string().min(1).optional()
+});
+
 // HTTP请求节点实现
 export class HttpRequestNode extends BaseNode<HttpRequestInput, HttpRequestOutput, HttpRequestSettings> {
+  public static schemas: NodeSchemas = {
+    input: HttpRequestInputSchema,
+    output: HttpRequestOutputSchema,
+    settings: HttpRequestSettingsSchema
+  };
+
   constructor(id: string, settings: HttpRequestSettings) {
     super(
       {
@@ -36,58 +79,94 @@ export class HttpRequestNode extends BaseNode<HttpRequestInput, HttpRequestOutpu
     );
   }
 
-  // 现在使用BaseNode的通用深度遍历实现，不需要自定义解析
+  // body 中整段为单个表达式的值保留原始类型，其余设置使用 BaseNode 的通用深度遍历解析
+  public resolveDynamicSettings(
+    inputs: HttpRequestInput,
+    context: NodeExecutionContext
+  ): HttpRequestSettings {
+    const { body, ...rest } = this.getEffectiveSettings(context);
+    const expressionContext = this.createExpressionContext(inputs, context);
+    const settings = ExpressionParser.deepParseExpressions(rest, expressionContext) as HttpRequestSettings;
+    if (body !== undefined) {
+      settings.body = typeof body === 'string'
+        ? ExpressionParser.resolveValue(body, expressionContext)
+        : ExpressionParser.deepParseExpressions(body, expressionContext);
+    }
+    return settings;
+  }
+
+  // 按 itemsPath 拆分响应时，输出项为数组元素而非 { status, data, success }
+  public getSchemas(): NodeSchemas {
+    const schemas = super.getSchemas();
+    if (this.originalSettings.itemsPath === undefined) return schemas;
+    return { ...schemas, item: z.record(z.string(), z.unknown()) };
+  }
 
   public async execute(
     inputs: HttpRequestInput,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _: NodeExecutionContext
+    context: NodeExecutionContext
   ): Promise<NodeExecutionResult<HttpRequestOutput>> {
     try {
       // 从设置中获取请求配置（这些设置可能已经被动态解析）
-      const { url, method, headers, timeout, bodyTemplate } = this.settings;
+      const { url, method, headers, timeout, bodyTemplate, body: bodySetting, credentialId, sendBinaryProperty } = this.settings;
+      const auth = credentialId ? await this.resolveCredential(credentialId, context) : undefined;
 
       // 构建请求体
-      let body: string | undefined;
-      if (bodyTemplate) {
+      let body: string | Uint8Array<ArrayBuffer> | undefined;
+      const sentBinary = sendBinaryProperty ? context.item?.binary?.[sendBinaryProperty] : undefined;
+      if (sendBinaryProperty) {
+        if (!sentBinary) {
+          throw new Error(`Input item has no binary property "${sendBinaryProperty}"`);
+        }
+        body = NodeItemUtils.fromBinary(sentBinary);
+      } else if (bodyTemplate) {
         // 如果有请求体模板，使用输入数据填充
         body = this.buildRequestBody(bodyTemplate, inputs);
+      } else if (bodySetting !== undefined) {
+        body = JSON.stringify(bodySetting);
       } else if (inputs.data && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
         // 如果没有模板但有数据且是写操作，直接序列化输入数据
         body = JSON.stringify(inputs.data);
       }
 
       // 构建完整URL（处理查询参数）
-      const finalUrl = this.buildUrl(url, inputs.params);
+      const finalUrl = this.buildUrl(url, { ...inputs.params, ...auth?.query });
 
-      console.log(`HTTP ${method} request to: ${finalUrl}`);
+      console.log(`HTTP ${method} request to: ${context.credentials?.redact(finalUrl) ?? finalUrl}`);
 
       const response = await fetch(finalUrl, {
         method: method,
         headers: {
-          'Content-Type': 'application/json',
-          ...headers
+          'Content-Type': sentBinary?.mimeType ?? 'application/json',
+          ...headers,
+          ...auth?.headers
         },
         body,
-        signal: AbortSignal.timeout(timeout)
+        signal: this.buildSignal(timeout, context.signal)
       });
 
+      if (this.settings.responseFormat === 'binary') {
+        return this.buildBinaryResult(response, finalUrl);
+      }
+
       let responseData: unknown;
       const contentType = response.headers.get('content-type');
       
-      if (contentType?.includes('application/json')) {
+      if (this.settings.responseFormat !== 'text' && contentType?.includes('application/json')) {
         responseData = await response.json();
       } else {
         responseData = await response.text();
       }
 
+      const output: HttpRequestOutput = {
+        status: response.status,
+        data: responseData,
+        success: response.ok
+      };
       return {
         success: true,
-        data: {
-          status: response.status,
-          data: responseData,
-          success: response.ok
-        }
+        data: output,
+        items: this.settings.itemsPath !== undefined ? this.splitItems(responseData, this.settings.itemsPath) : undefined
       };
     } catch (error) {
       return {
@@ -97,6 +176,46 @@ export class HttpRequestNode extends BaseNode<HttpRequestInput, HttpRequestOutpu
     }
   }
 
+  // 解析凭证：保险库未配置时失败，而不是发出未认证的请求
+  private async resolveCredential(credentialId: string, context: NodeExecutionContext): Promise<CredentialAuth> {
+    if (!context.credentials) {
+      throw new CredentialError(`Credential ${credentialId} cannot be resolved: no credential vault configured`);
+    }
+    return context.credentials.resolveAuth(credentialId, context.signal);
+  }
+
+  // 二进制响应：内容写入输出项的二进制部分，data 只保留类型、文件名与大小
+  private async buildBinaryResult(response: Response, url: string): Promise<NodeExecutionResult<HttpRequestOutput>> {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const mimeType = response.headers.get('content-type')?.split(';')[0].trim() || 'application/octet-stream';
+    const fileName = /filename\*?=(?:UTF-8'')?"?([^";]+)"?/i.exec(response.headers.get('content-disposition') ?? '')?.[1] ??
+      (new URL(url).pathname.split('/').pop() || undefined);
+    const binary = NodeItemUtils.toBinary(bytes, mimeType, fileName);
+
+    const output: HttpRequestOutput = {
+      status: response.status,
+      data: { mimeType, fileName, fileSize: binary.fileSize },
+      success: response.ok
+    };
+    return {
+      success: true,
+      data: output,
+      items: [{ json: output, binary: { [this.settings.binaryProperty || 'data']: binary } }]
+    };
+  }
+
+  // 按 itemsPath 取出响应体中的数组，每个元素为一项
+  private splitItems(responseData: unknown, itemsPath: string): NodeItem[] {
+    let value = responseData;
+    for (const key of itemsPath.split('.').filter(Boolean)) {
+      value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    if (!Array.isArray(value)) {
+      throw new Error(`Response has no array at itemsPath "${itemsPath}"`);
+    }
+    return value.map(element => NodeItemUtils.toItem(element));
+  }
+
   // 构建请求体
   private buildRequestBody(template: string, inputs: HttpRequestInput): string {
     // 这里可以进一步处理请求体模板，比如替换占位符
@@ -111,6 +230,15 @@ export class HttpRequestNode extends BaseNode<HttpRequestInput, HttpRequestOutpu
     }
   }
 
+  // 组合请求自身的超时与执行上下文的取消信号
+  private buildSignal(timeout: number, contextSignal?: AbortSignal): AbortSignal {
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    if (!contextSignal) {
+      return timeoutSignal;
+    }
+    return AbortSignal.any([timeoutSignal, contextSignal]);
+  }
+
   // 构建URL（添加查询参数）
   private buildUrl(baseUrl: string, params?: Record<string, unknown>): string {
     if (!params || Object.keys(params).length === 0) {
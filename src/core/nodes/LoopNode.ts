@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { BaseNode, type NodeExecutionContext, type NodeExecutionResult, type NodeSchemas } from '../abstract/BaseNode';
+import { SchemaUtils } from '../utils/SchemaUtils';
+
+// 循环节点的分支：循环体与全部迭代完成后的 done 分支
+export const LOOP_BODY_BRANCH = 0;
+export const LOOP_DONE_BRANCH = 1;
+
+// 循环节点的输入类型
+export type LoopNodeInput = Record<string, unknown>;
+
+export const LoopNodeInputSchema = z.looseObject({
+  items: z.union([z.array(z.unknown()), z.string()]).optional()
+});
+
+// 循环节点的输出类型：execute 只解析要迭代的数组，迭代与结果收集由执行引擎完成
+export interface LoopNodeOutput extends Record<string, unknown> {
+  items: unknown[];
+  count: number;
+}
+
+// 循环节点的设置类型
+export interface LoopNodeSettings extends Record<string, unknown> {
+  items?: unknown;                     // 要迭代的数组或表达式（如 {{$result.process-orders.newOrders}}），缺省读取输入中的 items
+  mode?: 'sequential' | 'parallel';    // 默认 sequential
+  concurrency?: number;                // parallel 模式下同时执行的迭代数，默认 4
+}
+
+// 设置的校验模式（在表达式解析前校验，值可为表达式模板）
+export const LoopNodeSettingsSchema = z.object({
+  items: z.unknown().optional(),
+  mode: z.enum(['sequential', 'parallel']).optional(),
+  concurrency: SchemaUtils.orExpression(z.number().int().min(1)).optional()
+});
+
+// 循环（forEach）节点实现
+export class LoopNode extends BaseNode<LoopNodeInput, LoopNodeOutput, LoopNodeSettings> {
+  // 不声明输出模式：下游收到的是执行引擎构造的迭代元素或汇总结果，而非 execute 的输出
+  public static schemas: NodeSchemas = {
+    input: LoopNodeInputSchema,
+    settings: LoopNodeSettingsSchema
+  };
+
+  constructor(id: string, settings: LoopNodeSettings) {
+    super(
+      {
+        id,
+        name: '循环',
+        type: 'loop'
+      },
+      settings
+    );
+  }
+
+  // 未设置 items 时从输入读取，输入必须提供 items
+  public getSchemas(): NodeSchemas {
+    const schemas = super.getSchemas();
+    if (this.originalSettings.items !== undefined) return schemas;
+    return {
+      ...schemas,
+      input: LoopNodeInputSchema.extend({ items: z.union([z.array(z.unknown()), z.string()]) })
+    };
+  }
+
+  public async execute(
+    inputs: LoopNodeInput,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _: NodeExecutionContext
+  ): Promise<NodeExecutionResult<LoopNodeOutput>> {
+    try {
+      const items = this.resolveItems(inputs);
+      return {
+        success: true,
+        data: { items, count: items.length }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error))
+      };
+    }
+  }
+
+  // 解析要迭代的数组：表达式解析结果为 JSON 字符串时还原为数组
+  private resolveItems(inputs: LoopNodeInput): unknown[] {
+    let items = this.settings.items ?? inputs.items;
+    if (typeof items === 'string') {
+      const trimmed = items.trim();
+      if (trimmed === '') {
+        return [];
+      }
+      try {
+        items = JSON.parse(trimmed);
+      } catch {
+        throw new Error(`Loop items must resolve to an array, got "${trimmed}"`);
+      }
+    }
+    if (!Array.isArray(items)) {
+      throw new Error('Loop items must resolve to an array');
+    }
+    return items;
+  }
+}
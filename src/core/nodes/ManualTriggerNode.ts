@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { BaseNode, type NodeExecutionContext, type NodeExecutionResult, type NodeSchemas } from '../abstract/BaseNode';
+import type { WorkflowInputDefinition } from '../abstract/BaseWorkflow';
+import { WorkflowIOUtils } from '../engine/WorkflowIO';
+
+// 手动触发节点的输入类型
+export type ManualTriggerInput = Record<string, unknown>;
+
+export const ManualTriggerInputSchema = z.record(z.string(), z.unknown());
+
+// 手动触发节点的输出类型：表单填写的值（按字段声明转换类型并填充默认值）
+export type ManualTriggerOutput = Record<string, unknown>;
+
+export const ManualTriggerOutputSchema = z.record(z.string(), z.unknown());
+
+// 手动触发节点的设置类型
+export interface ManualTriggerSettings extends Record<string, unknown> {
+  fields?: WorkflowInputDefinition[]; // 表单字段，声明方式与工作流的 config.inputs 相同
+}
+
+// 设置的校验模式（字段声明按 WorkflowIOUtils.validateDefinitions 检查）
+export const ManualTriggerSettingsSchema = z.object({
+  fields: z.array(z.unknown()).superRefine((fields, ctx) => {
+    WorkflowIOUtils.validateDefinitions(fields).forEach(message => ctx.addIssue({ code: 'custom', message }));
+  }).optional()
+});
+
+// 手动触发节点实现：执行器点击开始时按 fields 生成表单，填写的值作为触发载荷
+export class ManualTriggerNode extends BaseNode<ManualTriggerInput, ManualTriggerOutput, ManualTriggerSettings> {
+  public static schemas: NodeSchemas = {
+    input: ManualTriggerInputSchema,
+    output: ManualTriggerOutputSchema,
+    settings: ManualTriggerSettingsSchema
+  };
+
+  constructor(id: string, settings: ManualTriggerSettings) {
+    super(
+      {
+        id,
+        name: '手动触发器',
+        type: 'manual-trigger'
+      },
+      settings
+    );
+  }
+
+  // 不符合字段声明（缺少必填字段、类型不符）时以 WorkflowInputError 失败
+  public async execute(
+    _inputs: ManualTriggerInput,
+    context: NodeExecutionContext
+  ): Promise<NodeExecutionResult<ManualTriggerOutput>> {
+    try {
+      return {
+        success: true,
+        data: WorkflowIOUtils.resolveInputs(this.settings.fields, context.trigger)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error))
+      };
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { BaseNode, type NodeExecutionContext, type NodeExecutionResult, type NodeSchemas } from '../abstract/BaseNode';
+import { ExpressionParser } from '../utils/ExpressionParser';
+
+// 设置变量节点的输入类型
+export type SetVariableNodeInput = Record<string, unknown>;
+
+export const SetVariableNodeInputSchema = z.record(z.string(), z.unknown());
+
+// 设置变量节点的输出类型：原样传递输入，节点可插在任意两个节点之间
+export type SetVariableNodeOutput = Record<string, unknown>;
+
+export const SetVariableNodeOutputSchema = z.record(z.string(), z.unknown());
+
+// 设置变量节点的设置类型
+export interface SetVariableNodeSettings extends Record<string, unknown> {
+  variables: Record<string, unknown>; // 变量名 → 值或表达式（如 {{$result.fetch-orders.lastId}}）
+  persist?: boolean;                  // 写入静态变量，运行成功后保存，下次运行仍可读取
+}
+
+// 设置的校验模式（在表达式解析前校验，值可为表达式模板）
+export const SetVariableNodeSettingsSchema = z.object({
+  variables: z.record(z.string(), z.unknown()),
+  persist: z.boolean().optional()
+});
+
+// 设置变量节点实现
+export class SetVariableNode extends BaseNode<SetVariableNodeInput, SetVariableNodeOutput, SetVariableNodeSettings> {
+  public static schemas: NodeSchemas = {
+    input: SetVariableNodeInputSchema,
+    output: SetVariableNodeOutputSchema,
+    settings: SetVariableNodeSettingsSchema
+  };
+
+  constructor(id: string, settings: SetVariableNodeSettings) {
+    super(
+      {
+        id,
+        name: '设置变量',
+        type: 'set-variable'
+      },
+      settings
+    );
+  }
+
+  // 整段为单个表达式的变量值保留原始类型（数字、对象等），不转为字符串
+  public resolveDynamicSettings(
+    inputs: SetVariableNodeInput,
+    context: NodeExecutionContext
+  ): SetVariableNodeSettings {
+    const expressionContext = this.createExpressionContext(inputs, context);
+    const settings = this.getEffectiveSettings(context);
+    const variables: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(settings.variables || {})) {
+      variables[name] = typeof value === 'string'
+        ? ExpressionParser.resolveValue(value, expressionContext)
+        : ExpressionParser.deepParseExpressions(value, expressionContext);
+    }
+    return { ...settings, variables };
+  }
+
+  public async execute(
+    inputs: SetVariableNodeInput,
+    context: NodeExecutionContext
+  ): Promise<NodeExecutionResult<SetVariableNodeOutput>> {
+    if (!context.variables) {
+      return {
+        success: false,
+        error: new Error('Variables are not available in this execution context')
+      };
+    }
+
+    for (const [name, value] of Object.entries(this.settings.variables || {})) {
+      context.variables.set(name, value, { persist: this.settings.persist });
+    }
+    return {
+      success: true,
+      data: { ...inputs }
+    };
+  }
+}
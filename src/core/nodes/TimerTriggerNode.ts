@@ -1,21 +1,60 @@
-import { BaseNode, type NodeExecutionContext, type NodeExecutionResult } from '../abstract/BaseNode';
+import { z } from 'zod';
+import { BaseNode, type NodeExecutionContext, type NodeExecutionResult, type NodeSchemas } from '../abstract/BaseNode';
+import { SchemaUtils } from '../utils/SchemaUtils';
+import { CronExpression } from '../engine/CronExpression';
 
 // 定时触发节点的输入类型
 export type TimerTriggerInput = Record<string, unknown>;
 
+export const TimerTriggerInputSchema = z.record(z.string(), z.unknown());
+
 // 定时触发节点的输出类型
 export interface TimerTriggerOutput extends Record<string, unknown> {
   timestamp: number;
   data: Record<string, unknown>;
 }
 
-// 定时触发节点的设置类型
+export const TimerTriggerOutputSchema = z.object({
+  timestamp: z.number(),
+  data: z.record(z.string(), z.unknown())
+});
+
+// 错过的计划时间（调度器停止期间，或上一次运行尚未结束）的补跑策略：
+// skip 不补跑；once 合并为一次（以最近错过的时间）；all 逐个补跑（最多 maxCatchUp 次）
+export type TimerCatchUpPolicy = 'skip' | 'once' | 'all';
+
+// 定时触发节点的设置类型：interval 与 cron 二选一，都未设置（或 interval 为 0）时只能手动运行
 export interface TimerTriggerSettings extends Record<string, unknown> {
-  interval: number; // 间隔时间（毫秒）
+  interval?: number; // 间隔时间（毫秒）
+  cron?: string; // 五段式 cron 表达式（分 时 日 月 周），如 0 9 * * MON-FRI
+  timezone?: string; // cron 使用的 IANA 时区（如 Asia/Shanghai），默认为调度器所在环境的本地时区
+  catchUp?: TimerCatchUpPolicy; // 默认 skip
+  maxCatchUp?: number; // all 策略下最多补跑的次数，默认 10
 }
 
+// 设置的校验模式（在表达式解析前校验，值可为表达式模板）
+export const TimerTriggerSettingsSchema = z.object({
+  interval: SchemaUtils.orExpression(z.number().min(0)).optional(),
+  cron: SchemaUtils.orExpression(z.string().superRefine((cron, ctx) => {
+    try {
+      CronExpression.parse(cron, 'UTC');
+    } catch (error) {
+      ctx.addIssue({ code: 'custom', message: (error as Error).message });
+    }
+  })).optional(),
+  timezone: z.string().min(1).optional(),
+  catchUp: z.enum(['skip', 'once', 'all']).optional(),
+  maxCatchUp: z.number().int().min(1).optional()
+});
+
 // 定时触发节点实现
 export class TimerTriggerNode extends BaseNode<TimerTriggerInput, TimerTriggerOutput, TimerTriggerSettings> {
+  public static schemas: NodeSchemas = {
+    input: TimerTriggerInputSchema,
+    output: TimerTriggerOutputSchema,
+    settings: TimerTriggerSettingsSchema
+  };
+
   constructor(id: string, settings: TimerTriggerSettings) {
     super(
       {
@@ -27,16 +66,19 @@ export class TimerTriggerNode extends BaseNode<TimerTriggerInput, TimerTriggerOu
     );
   }
 
+  // 由调度器触发时，timestamp 为计划时间，data 中另有 scheduledTime / firedAt / catchUp
   public async execute(
     _inputs: TimerTriggerInput,
     context: NodeExecutionContext
   ): Promise<NodeExecutionResult<TimerTriggerOutput>> {
     try {
+      const scheduledTime = context.trigger?.scheduledTime;
       const output: TimerTriggerOutput = {
-        timestamp: Date.now(),
+        timestamp: typeof scheduledTime === 'number' ? scheduledTime : Date.now(),
         data: {
           workflowId: context.workflowId,
-          nodeId: context.nodeId
+          nodeId: context.nodeId,
+          ...context.trigger
         }
       };
 
@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { BaseNode, type NodeExecutionContext, type NodeExecutionResult, type NodeSchemas } from '../abstract/BaseNode';
+import { ExpressionParser } from '../utils/ExpressionParser';
+import { NodeItemUtils, type NodeExecutionMode } from '../engine/NodeItems';
+import type { WorkflowResponse } from '../engine/WorkflowRunner';
+
+// 响应节点的输入类型
+export type WebhookRespondInput = Record<string, unknown>;
+
+export const WebhookRespondInputSchema = z.record(z.string(), z.unknown());
+
+// 响应节点的输出类型：发出的回复（二进制响应体不含在内），响应之后可以继续执行其他节点
+export interface WebhookRespondOutput extends Record<string, unknown> {
+  statusCode: number;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export const WebhookRespondOutputSchema = z.object({
+  statusCode: z.number().int(),
+  headers: z.record(z.string(), z.string()),
+  body: z.unknown().optional()
+});
+
+// 响应节点的设置类型
+export interface WebhookRespondSettings extends Record<string, unknown> {
+  statusCode?: number; // 默认 200
+  headers?: Record<string, string>;
+  body?: unknown; // 响应体，可为表达式（整段为单个表达式时保留原始类型）；缺省为全部输入项（单项时为其 json）
+  binaryProperty?: string; // 以首个输入项的该二进制部分作为响应体
+}
+
+// 设置的校验模式（在表达式解析前校验，值可为表达式模板）
+export const WebhookRespondSettingsSchema = z.object({
+  statusCode: z.number().int().min(100).max(599).optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  body: z.unknown().optional(),
+  binaryProperty: z.string().min(1).optional()
+});
+
+/**
+ * 响应节点
+ * 回复触发本次运行的调用方（responseMode 为 respondNode 的 Webhook 请求）；同一次运行只有第一次回复生效，
+ * 没有等待回复的调用方（如手动运行）时只输出回复内容
+ */
+export class WebhookRespondNode extends BaseNode<WebhookRespondInput, WebhookRespondOutput, WebhookRespondSettings> {
+  public static schemas: NodeSchemas = {
+    input: WebhookRespondInputSchema,
+    output: WebhookRespondOutputSchema,
+    settings: WebhookRespondSettingsSchema
+  };
+
+  // 对全部输入项只回复一次
+  public static executionMode: NodeExecutionMode = 'allItems';
+
+  constructor(id: string, settings: WebhookRespondSettings) {
+    super(
+      {
+        id,
+        name: '响应 Webhook',
+        type: 'webhook-respond'
+      },
+      settings
+    );
+  }
+
+  public resolveDynamicSettings(
+    inputs: WebhookRespondInput,
+    context: NodeExecutionContext
+  ): WebhookRespondSettings {
+    const { body, ...rest } = this.getEffectiveSettings(context);
+    const expressionContext = this.createExpressionContext(inputs, context);
+    const settings = ExpressionParser.deepParseExpressions(rest, expressionContext) as WebhookRespondSettings;
+    if (body !== undefined) {
+      settings.body = typeof body === 'string'
+        ? ExpressionParser.resolveValue(body, expressionContext)
+        : ExpressionParser.deepParseExpressions(body, expressionContext);
+    }
+    return settings;
+  }
+
+  public async execute(
+    inputs: WebhookRespondInput,
+    context: NodeExecutionContext
+  ): Promise<NodeExecutionResult<WebhookRespondOutput>> {
+    const items = context.items ?? [{ json: inputs }];
+    const { statusCode = 200, headers = {}, body, binaryProperty } = this.settings;
+
+    let response: WorkflowResponse;
+    if (binaryProperty) {
+      const binary = items[0]?.binary?.[binaryProperty];
+      if (!binary) {
+        return {
+          success: false,
+          error: new Error(`Input item has no binary property "${binaryProperty}" to respond with`)
+        };
+      }
+      response = { statusCode, headers, binary };
+    } else {
+      response = { statusCode, headers, body: body !== undefined ? body : NodeItemUtils.toData(items) };
+    }
+    context.respond?.(response);
+
+    return {
+      success: true,
+      data: { statusCode: response.statusCode, headers: response.headers, ...(response.binary ? {} : { body: response.body }) }
+    };
+  }
+}
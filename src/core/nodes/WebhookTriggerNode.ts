@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { BaseNode, type NodeExecutionContext, type NodeExecutionResult, type NodeSchemas } from '../abstract/BaseNode';
+import type { BinaryData } from '../engine/NodeItems';
+
+// Webhook 触发节点的输入类型
+export type WebhookTriggerInput = Record<string, unknown>;
+
+export const WebhookTriggerInputSchema = z.record(z.string(), z.unknown());
+
+// Webhook 触发节点的输出类型：收到的请求（认证所用的请求头与查询参数已去除）
+export interface WebhookTriggerOutput extends Record<string, unknown> {
+  method: string;
+  path: string;
+  // 路径中 :name 段匹配到的值
+  params: Record<string, string>;
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+export const WebhookTriggerOutputSchema = z.object({
+  method: z.string(),
+  path: z.string(),
+  params: z.record(z.string(), z.string()),
+  headers: z.record(z.string(), z.string()),
+  query: z.record(z.string(), z.string()),
+  body: z.unknown()
+});
+
+export type WebhookMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// 回复方式：immediately 收到请求即回复，工作流在后台运行；respondNode 等待响应节点的结果
+export type WebhookResponseMode = 'immediately' | 'respondNode';
+
+// Webhook 触发节点的设置类型
+export interface WebhookTriggerSettings extends Record<string, unknown> {
+  path: string; // 请求路径（相对 Webhook 的基础路径），可含 :name 段，如 orders/:id
+  method?: WebhookMethod; // 默认 POST
+  credentialId?: string; // 凭证 id：请求须携带该凭证（API Key / Basic / Bearer）对应的请求头或查询参数
+  responseMode?: WebhookResponseMode; // 默认 immediately
+  responseCode?: number; // immediately 模式的状态码，默认 200
+}
+
+// 设置的校验模式（路径与方法在注册时确定，不支持表达式）
+export const WebhookTriggerSettingsSchema = z.object({
+  path: z.string().regex(/^\/?[^?#\s]+$/, 'Webhook path must be a non-empty URL path without query or fragment'),
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).optional(),
+  credentialId: z.string().min(1).optional(),
+  responseMode: z.enum(['immediately', 'respondNode']).optional(),
+  responseCode: z.number().int().min(100).max(599).optional()
+});
+
+// Webhook 触发节点实现
+export class WebhookTriggerNode extends BaseNode<WebhookTriggerInput, WebhookTriggerOutput, WebhookTriggerSettings> {
+  public static schemas: NodeSchemas = {
+    input: WebhookTriggerInputSchema,
+    output: WebhookTriggerOutputSchema,
+    settings: WebhookTriggerSettingsSchema
+  };
+
+  constructor(id: string, settings: WebhookTriggerSettings) {
+    super(
+      {
+        id,
+        name: 'Webhook 触发器',
+        type: 'webhook-trigger'
+      },
+      settings
+    );
+  }
+
+  // 由 WebhookRouter 触发时输出收到的请求；请求中的文件放在输出项的二进制部分
+  public async execute(
+    _inputs: WebhookTriggerInput,
+    context: NodeExecutionContext
+  ): Promise<NodeExecutionResult<WebhookTriggerOutput>> {
+    try {
+      const { binary, ...request } = context.trigger ?? {};
+      const output: WebhookTriggerOutput = {
+        method: this.settings.method ?? 'POST',
+        path: this.settings.path,
+        params: {},
+        headers: {},
+        query: {},
+        body: undefined,
+        ...request
+      };
+
+      return {
+        success: true,
+        data: output,
+        ...(binary ? { items: [{ json: output, binary: binary as Record<string, BinaryData> }] } : {})
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error))
+      };
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import { BaseNode, type NodeExecutionContext, type NodeExecutionResult } from '../abstract/BaseNode';
 import { BaseWorkflow } from '../abstract/BaseWorkflow';
+import { WorkflowRunner, type WorkflowRunResult } from '../engine/WorkflowRunner';
+import { WorkflowIOUtils } from '../engine/WorkflowIO';
 
 // 工作流节点的输入类型
 export interface WorkflowNodeInput extends Record<string, unknown> {
@@ -13,7 +15,7 @@ export interface WorkflowNodeInput extends Record<string, unknown> {
 export interface WorkflowNodeOutput extends Record<string, unknown> {
   // 子工作流的执行结果
   workflowResults: Map<string, unknown>;
-  // 最终输出数据（通常是最后一个节点的结果）
+  // 最终输出数据：outputMapping 提取的数据，其次子工作流声明的输出，否则为最后一个节点的结果
   finalOutput?: unknown;
   // 执行统计信息
   executionStats: {
@@ -66,23 +68,26 @@ export class WorkflowNode extends BaseNode<WorkflowNodeInput, WorkflowNodeOutput
       
       console.log(`执行子工作流: ${subWorkflow.config.name} (ID: ${subWorkflow.config.id})`);
 
-      // 1. 准备子工作流的输入数据
-      const subWorkflowInputs = this.prepareSubWorkflowInputs(inputs, inputMapping);
+      // 1. 准备子工作流的输入数据，并按子工作流的输入声明校验（不符合时不再重试）
+      const subWorkflowInputs = WorkflowIOUtils.resolveInputs(
+        subWorkflow.config.inputs,
+        this.prepareSubWorkflowInputs(inputs, inputMapping)
+      );
       
       // 2. 设置子工作流的执行上下文
       this.setupSubWorkflowContext(subWorkflow, context, subWorkflowInputs);
       
       // 3. 执行子工作流（支持重试）
-      let workflowResults: Map<string, NodeExecutionResult>;
+      let runResult: WorkflowRunResult;
       let attempts = 0;
       
       while (attempts <= maxRetries) {
         try {
           // 执行子工作流（带超时控制）
           if (timeout) {
-            workflowResults = await this.executeWithTimeout(subWorkflow, timeout);
+            runResult = await this.executeWithTimeout(subWorkflow, subWorkflowInputs, timeout, context.signal);
           } else {
-            workflowResults = await subWorkflow.execute();
+            runResult = await new WorkflowRunner(subWorkflow, { signal: context.signal, inputs: subWorkflowInputs }).run();
           }
           break; // 成功执行，跳出重试循环
         } catch (error) {
@@ -96,6 +101,7 @@ export class WorkflowNode extends BaseNode<WorkflowNodeInput, WorkflowNodeOutput
       }
 
       // 4. 处理执行结果
+      const workflowResults = runResult!.results;
       const executionStats = this.calculateExecutionStats(workflowResults!, startTime);
       
       // 5. 检查是否有失败的节点
@@ -110,7 +116,9 @@ export class WorkflowNode extends BaseNode<WorkflowNodeInput, WorkflowNodeOutput
       }
 
       // 6. 提取最终输出
-      const finalOutput = this.extractFinalOutput(workflowResults!, outputMapping);
+      const finalOutput = !outputMapping && runResult!.outputs
+        ? runResult!.outputs
+        : this.extractFinalOutput(workflowResults!, outputMapping);
       
       // 7. 构建输出数据
       const outputData: WorkflowNodeOutput = {
@@ -178,10 +186,12 @@ export class WorkflowNode extends BaseNode<WorkflowNodeInput, WorkflowNodeOutput
   // 带超时的执行
   private async executeWithTimeout(
     subWorkflow: BaseWorkflow, 
-    timeout: number
-  ): Promise<Map<string, NodeExecutionResult>> {
+    inputs: Record<string, unknown>,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<WorkflowRunResult> {
     return Promise.race([
-      subWorkflow.execute(),
+      new WorkflowRunner(subWorkflow, { signal, inputs }).run(),
       new Promise<never>((_, reject) => {
         setTimeout(() => reject(new Error(`子工作流执行超时 (${timeout}ms)`)), timeout);
       })
@@ -62,10 +62,20 @@ export const WebSearchTool: Tool = {
     limit: z.number().optional().default(5).describe('返回结果数量限制')
   }),
   
-  async execute(input: { query: string; limit?: number }, _context: NodeExecutionContext) {
-    void _context;
-    // 模拟搜索延迟
-    await new Promise(resolve => setTimeout(resolve, 1000));
+  async execute(input: { query: string; limit?: number }, context: NodeExecutionContext) {
+    // 模拟搜索延迟（可被取消）
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(context.signal?.reason ?? new Error('Search aborted'));
+      };
+      // 正常结束时移除监听，避免长期存在的信号上累积监听器
+      const timer = setTimeout(() => {
+        context.signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, 1000);
+      context.signal?.addEventListener('abort', onAbort, { once: true });
+    });
     
     // 模拟搜索结果
     const mockResults = [
@@ -55,6 +55,8 @@ export interface LLMProvider {
       tools?: Tool[];
       maxTokens?: number;
       temperature?: number;
+      /** 取消信号，运行停止或节点超时时触发 */
+      signal?: AbortSignal;
     }
   ): Promise<{
     content: string;
@@ -113,8 +115,32 @@ export class ToolManager {
     }
 
     const startTime = Date.now();
-    
+    const result = await this.runTool(tool, input, context, startTime);
+    const endTime = Date.now();
+
+    context.events?.emit('toolCalled', {
+      nodeId: context.nodeId,
+      toolId,
+      input,
+      result,
+      startTime,
+      endTime,
+      duration: endTime - startTime
+    });
+    return result;
+  }
+
+  /** 校验输入并执行工具，错误统一转换为失败结果 */
+  private async runTool(
+    tool: Tool,
+    input: unknown,
+    context: NodeExecutionContext,
+    startTime: number
+  ): Promise<ToolExecutionResult> {
     try {
+      // 运行已被取消时不再执行工具
+      context.signal?.throwIfAborted();
+
       // 验证输入参数
       const validatedInput = tool.parameters.parse(input);
       
@@ -48,13 +48,21 @@ export class ExpressionParser {
     }
   }
 
+  // 解析单个值：整段为单个表达式时返回原始值（对象、数字等不转为字符串），否则按字符串模板解析
+  public static resolveValue(template: string, context: ExpressionContext): unknown {
+    const match = template.trim().match(/^\{\{([^}]+)\}\}$/);
+    if (match) {
+      return this.evaluateSimpleExpression(match[1].trim(), context);
+    }
+    return this.parseString(template, context);
+  }
+
   // 简化的表达式求值
   private static evaluateSimpleExpression(expression: string, context: ExpressionContext): unknown {
-    // $result.nodeId.field
+    // $result.nodeId.field（$result.nodeId 为整个输出）
     if (expression.startsWith('$result.')) {
       const path = expression.substring(8);
       const parts = path.split('.');
-      if (parts.length < 2) return '';
       
       const nodeId = parts[0];
       const nodeResult = context.previousResults?.get(nodeId);
@@ -83,6 +91,39 @@ export class ExpressionParser {
       if (!context.currentSettings) return '';
       return this.getValueByPath(context.currentSettings, path.split('.'));
     }
+
+    // $workflow.input.field（工作流的运行参数）
+    if (expression.startsWith('$workflow.input.')) {
+      const path = expression.substring(16);
+      if (!context.workflowInputs) return '';
+      return this.getValueByPath(context.workflowInputs, path.split('.'));
+    }
+
+    // $vars.name（运行变量与静态变量）
+    if (expression.startsWith('$vars.')) {
+      const path = expression.substring(6);
+      if (!context.variables) return '';
+      return this.getValueByPath(context.variables, path.split('.'));
+    }
+
+    // $env.name（当前环境的值）
+    if (expression.startsWith('$env.')) {
+      const path = expression.substring(5);
+      if (!context.environment) return '';
+      return this.getValueByPath(context.environment, path.split('.'));
+    }
+
+    // $item / $item.field / $index（仅在循环体内可用）
+    if (expression === '$item') {
+      return context.loop ? context.loop.item : '';
+    }
+    if (expression.startsWith('$item.')) {
+      if (!context.loop) return '';
+      return this.getValueByPath(context.loop.item, expression.substring(6).split('.'));
+    }
+    if (expression === '$index') {
+      return context.loop ? context.loop.index : '';
+    }
     
     return expression; // 不支持的表达式直接返回
   }
@@ -130,6 +171,14 @@ export interface ExpressionContext {
   currentInputs?: Record<string, unknown>;
   currentSettings?: Record<string, unknown>;
   executionContext?: Record<string, unknown>;
+  // 循环体内当前迭代的元素与序号
+  loop?: { item: unknown; index: number };
+  // 工作流的运行参数（已按输入声明解析）
+  workflowInputs?: Record<string, unknown>;
+  // 工作流变量（运行变量覆盖同名静态变量）
+  variables?: Record<string, unknown>;
+  // 当前环境的值
+  environment?: Record<string, unknown>;
 }
 
 // 简化的工具类
@@ -169,6 +218,23 @@ export class ExpressionUtils {
       '节点设置': [
         '{{$settings.apiKey}}',
         '{{$settings.timeout}}'
+      ],
+      '工作流输入': [
+        '{{$workflow.input.customerId}}',
+        '{{$workflow.input.options.limit}}'
+      ],
+      '工作流变量': [
+        '{{$vars.lastOrderId}}',
+        '{{$vars.counter}}'
+      ],
+      '环境': [
+        '{{$env.apiBaseUrl}}',
+        '{{$env.storeId}}'
+      ],
+      '循环迭代': [
+        '{{$item}}',
+        '{{$item.orderId}}',
+        '{{$index}}'
       ]
     };
   }
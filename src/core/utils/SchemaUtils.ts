@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+// 表达式模板（如 {{$env.timeout}}）：运行时才能确定解析结果
+const EXPRESSION_PATTERN = /\{\{.+?\}\}/;
+
+// 校验问题：path 为以点分隔的字段路径（根为空字符串）
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+// 节点模式工具类
+export class SchemaUtils {
+  /**
+   * 允许字段为表达式模板：设置在解析前校验，{{...}} 形式的值无法确定类型，予以放行
+   */
+  static orExpression<T extends z.ZodType>(schema: T) {
+    return z.unknown().superRefine((value, ctx) => {
+      if (typeof value === 'string' && EXPRESSION_PATTERN.test(value)) return;
+      const result = schema.safeParse(value);
+      if (result.success) return;
+      for (const issue of result.error.issues) {
+        ctx.addIssue({ code: 'custom', message: issue.message, path: issue.path });
+      }
+    });
+  }
+
+  /**
+   * 校验值，返回扁平的问题列表（通过时为空）
+   */
+  static check(schema: z.ZodType, value: unknown): SchemaIssue[] {
+    const result = schema.safeParse(value);
+    if (result.success) return [];
+    return result.error.issues.map(issue => ({
+      path: issue.path.map(String).join('.'),
+      message: issue.message
+    }));
+  }
+}
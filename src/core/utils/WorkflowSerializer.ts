@@ -1,10 +1,19 @@
 import { BaseWorkflow, type WorkflowConnection, type WorkflowConfig } from '../abstract/BaseWorkflow';
-import { BaseNode, type NodeConfig } from '../abstract/BaseNode';
+import { BaseNode, ERROR_BRANCH_INDEX, type NodeConfig, type NodeSchemas } from '../abstract/BaseNode';
 import { TimerTriggerNode } from '../nodes/TimerTriggerNode';
+import { WebhookTriggerNode } from '../nodes/WebhookTriggerNode';
+import { ManualTriggerNode } from '../nodes/ManualTriggerNode';
+import { ChatTriggerNode } from '../nodes/ChatTriggerNode';
+import { WebhookRespondNode } from '../nodes/WebhookRespondNode';
 import { HttpRequestNode } from '../nodes/HttpRequestNode';
 import { CodeNode } from '../nodes/CodeNode';
 import { AgentNode } from '../nodes/AgentNode';
 import { ConditionNode } from '../nodes/ConditionNode';
+import { LoopNode } from '../nodes/LoopNode';
+import { SetVariableNode } from '../nodes/SetVariableNode';
+import { WorkflowIOUtils } from '../engine/WorkflowIO';
+import { WorkflowEnvironmentUtils } from '../engine/WorkflowEnvironment';
+import type { NodeItem } from '../engine/NodeItems';
 
 // 序列化后的工作流 JSON 接口
 export interface SerializedWorkflow {
@@ -25,14 +34,18 @@ export interface SerializedNode {
   originalSettings: Record<string, unknown>;
   // settings 字段已废弃，为了向后兼容保留可选
   settings?: Record<string, unknown>;
+  // 固定输出：存在时执行引擎直接返回该数据（可从上一次真实运行中捕获）
+  pinnedData?: unknown;
+  // 固定的输出项（按分支索引分组，含二进制部分）：输出项无法由 pinnedData 还原时（如多项或二进制输出）保存
+  pinnedItems?: Record<string, NodeItem[]>;
 }
 
 // 节点构造函数类型（注册表内部使用统一签名）
 type AnySettings = Record<string, unknown>;
-type NodeConstructorAny = new (
+type NodeConstructorAny = (new (
   id: string,
   settings: AnySettings
-) => BaseNode;
+) => BaseNode) & { schemas?: NodeSchemas };
 
 // 节点类型注册表
 export class NodeRegistry {
@@ -46,6 +59,11 @@ export class NodeRegistry {
     this.nodeTypes.set(nodeType, constructor as unknown as NodeConstructorAny);
   }
 
+  // 获取节点类型声明的模式（节点类的 static schemas）
+  static getSchemas(nodeType: string): NodeSchemas | undefined {
+    return this.nodeTypes.get(nodeType)?.schemas;
+  }
+
   // 获取节点构造函数
   static getNodeConstructor(nodeType: string): NodeConstructorAny | undefined {
     return this.nodeTypes.get(nodeType);
@@ -64,10 +82,16 @@ export class NodeRegistry {
   // 初始化内置节点类型
   static initializeBuiltinTypes(): void {
     this.registerNodeType('timer-trigger', TimerTriggerNode);
+    this.registerNodeType('webhook-trigger', WebhookTriggerNode);
+    this.registerNodeType('manual-trigger', ManualTriggerNode);
+    this.registerNodeType('chat-trigger', ChatTriggerNode);
     this.registerNodeType('http-request', HttpRequestNode);
     this.registerNodeType('code', CodeNode);
     this.registerNodeType('agent', AgentNode);
     this.registerNodeType('condition', ConditionNode);
+    this.registerNodeType('loop', LoopNode);
+    this.registerNodeType('set-variable', SetVariableNode);
+    this.registerNodeType('webhook-respond', WebhookRespondNode);
   }
 }
 
@@ -84,21 +108,28 @@ export class WorkflowSerializer {
         config: {
           id: nodeId,
           name: node.config.name,
-          type: node.config.type
+          type: node.config.type,
+          join: this.deepClone(node.config.join),
+          retry: this.deepClone(node.config.retry),
+          timeout: node.config.timeout,
+          executionMode: node.config.executionMode
         },
-        originalSettings: this.deepClone(node.originalSettings)
+        originalSettings: this.deepClone(node.originalSettings),
         // 不再保存 settings，减少 JSON 文件大小
+        ...(node.pinnedData !== undefined ? { pinnedData: this.deepClone(node.pinnedData) } : {}),
+        ...(node.pinnedItems !== undefined ? { pinnedItems: this.deepClone(node.pinnedItems) } : {})
       });
     }
 
-    // 序列化连接（保留可选的 branchIndex）
+    // 序列化连接（保留可选的 branchIndex 与回边的 maxIterations）
     const serializedConnections: WorkflowConnection[] = [];
     for (const connection of workflow.connections.values()) {
       serializedConnections.push({
         id: connection.id,
         sourceNodeId: connection.sourceNodeId,
         targetNodeId: connection.targetNodeId,
-        branchIndex: connection.branchIndex
+        branchIndex: connection.branchIndex,
+        maxIterations: connection.maxIterations
       });
     }
 
@@ -106,7 +137,13 @@ export class WorkflowSerializer {
     const serialized: SerializedWorkflow = {
       config: {
         id: workflow.config.id,
-        name: workflow.config.name
+        name: workflow.config.name,
+        maxConcurrency: workflow.config.maxConcurrency,
+        maxIterations: workflow.config.maxIterations,
+        inputs: this.deepClone(workflow.config.inputs),
+        outputs: this.deepClone(workflow.config.outputs),
+        environments: this.deepClone(workflow.config.environments),
+        defaultEnvironment: workflow.config.defaultEnvironment
       },
       nodes: serializedNodes,
       connections: serializedConnections,
@@ -148,9 +185,19 @@ export class WorkflowSerializer {
           initialSettings
         );
 
-        // 设置原始设置（包含表达式）
+        // 设置原始设置（包含表达式）；旧格式只有 settings 时以其为准
         (node as unknown as { originalSettings: Record<string, unknown> }).originalSettings =
-          this.deepClone(serializedNode.originalSettings);
+          this.deepClone(serializedNode.originalSettings || initialSettings);
+
+        // 恢复节点级执行配置（构造函数只设置 id/name/type）
+        this.restoreNodeConfig(node, serializedNode.config);
+
+        if (serializedNode.pinnedData !== undefined) {
+          node.pinnedData = this.deepClone(serializedNode.pinnedData) as Record<string, unknown>;
+        }
+        if (serializedNode.pinnedItems !== undefined) {
+          node.pinnedItems = this.deepClone(serializedNode.pinnedItems);
+        }
 
         workflow.addNode(node);
       } catch (error) {
@@ -188,80 +235,31 @@ export class WorkflowSerializer {
     if (!workflow.config || typeof workflow.config !== 'object') {
       errors.push('Missing or invalid config');
     } else {
-      const config = workflow.config as Record<string, unknown>;
-      if (!config.id || typeof config.id !== 'string') {
-        errors.push('Config missing required field: id');
-      }
-      if (!config.name || typeof config.name !== 'string') {
-        errors.push('Config missing required field: name');
-      }
+      errors.push(...this.validateConfig(workflow.config as Record<string, unknown>));
     }
 
     if (!Array.isArray(workflow.nodes)) {
       errors.push('Missing or invalid nodes array');
     } else {
       // 验证节点
-      for (let i = 0; i < workflow.nodes.length; i++) {
-        const node = workflow.nodes[i];
-        if (!node || typeof node !== 'object') {
-          errors.push(`Node at index ${i} is invalid`);
-          continue;
-        }
-
-        const nodeObj = node as Record<string, unknown>;
-        if (!nodeObj.config || typeof nodeObj.config !== 'object') {
-          errors.push(`Node at index ${i} missing config`);
-        } else {
-          const nodeConfig = nodeObj.config as Record<string, unknown>;
-          if (!nodeConfig.id || typeof nodeConfig.id !== 'string') {
-            errors.push(`Node at index ${i} missing config.id`);
-          }
-          if (!nodeConfig.type || typeof nodeConfig.type !== 'string') {
-            errors.push(`Node at index ${i} missing config.type`);
-          } else {
-            // 检查节点类型是否已注册
-            NodeRegistry.initializeBuiltinTypes();
-            if (!NodeRegistry.isRegistered(nodeConfig.type as string)) {
-              errors.push(`Node at index ${i} has unknown type: ${nodeConfig.type}`);
-            }
-          }
-        }
-
-        // 检查是否有 originalSettings 或 settings（向后兼容）
-        if (!nodeObj.originalSettings || typeof nodeObj.originalSettings !== 'object') {
-          if (!nodeObj.settings || typeof nodeObj.settings !== 'object') {
-            errors.push(`Node at index ${i} missing originalSettings (and settings for backward compatibility)`);
+      workflow.nodes.forEach((node, i) => {
+        errors.push(...this.validateNode(node, i));
+        // 检查节点类型是否已注册
+        const type = (node as { config?: { type?: unknown } } | null)?.config?.type;
+        if (type && typeof type === 'string') {
+          NodeRegistry.initializeBuiltinTypes();
+          if (!NodeRegistry.isRegistered(type)) {
+            errors.push(`Node at index ${i} has unknown type: ${type}`);
           }
         }
-      }
+      });
     }
 
     if (!Array.isArray(workflow.connections)) {
       errors.push('Missing or invalid connections array');
     } else {
       // 验证连接
-      for (let i = 0; i < workflow.connections.length; i++) {
-        const connection = workflow.connections[i];
-        if (!connection || typeof connection !== 'object') {
-          errors.push(`Connection at index ${i} is invalid`);
-          continue;
-        }
-
-        const connObj = connection as Record<string, unknown>;
-        if (!connObj.id || typeof connObj.id !== 'string') {
-          errors.push(`Connection at index ${i} missing id`);
-        }
-        if (!connObj.sourceNodeId || typeof connObj.sourceNodeId !== 'string') {
-          errors.push(`Connection at index ${i} missing sourceNodeId`);
-        }
-        if (!connObj.targetNodeId || typeof connObj.targetNodeId !== 'string') {
-          errors.push(`Connection at index ${i} missing targetNodeId`);
-        }
-        // branchIndex 可选，但如果提供则必须是数字且 >= 0
-        if (connObj.branchIndex !== undefined && typeof connObj.branchIndex !== 'number') {
-          errors.push(`Connection at index ${i} has invalid branchIndex (must be number if provided)`);
-        }
-      }
+      workflow.connections.forEach((connection, i) => errors.push(...this.validateConnection(connection, i)));
     }
 
     return {
@@ -270,6 +268,194 @@ export class WorkflowSerializer {
     };
   }
 
+  /**
+   * 验证工作流配置（id、名称、并发与迭代上限、输入输出声明与环境）
+   */
+  static validateConfig(config: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+    if (!config.id || typeof config.id !== 'string') {
+      errors.push('Config missing required field: id');
+    }
+    if (!config.name || typeof config.name !== 'string') {
+      errors.push('Config missing required field: name');
+    }
+    if (config.maxConcurrency !== undefined &&
+        (typeof config.maxConcurrency !== 'number' || config.maxConcurrency < 1)) {
+      errors.push('Config has invalid maxConcurrency (must be a number >= 1 if provided)');
+    }
+    if (config.maxIterations !== undefined &&
+        (typeof config.maxIterations !== 'number' || !Number.isInteger(config.maxIterations) || config.maxIterations < 0)) {
+      errors.push('Config has invalid maxIterations (must be an integer >= 0 if provided)');
+    }
+    if (config.inputs !== undefined) {
+      errors.push(...WorkflowIOUtils.validateDefinitions(config.inputs));
+    }
+    if (config.outputs !== undefined) {
+      errors.push(...WorkflowIOUtils.validateOutputs(config.outputs));
+    }
+    if (config.environments !== undefined || config.defaultEnvironment !== undefined) {
+      errors.push(...WorkflowEnvironmentUtils.validate(config.environments ?? [], config.defaultEnvironment));
+    }
+    return errors;
+  }
+
+  /**
+   * 验证单个序列化节点（不检查类型是否已注册）
+   */
+  static validateNode(node: unknown, i: number): string[] {
+    const errors: string[] = [];
+    if (!node || typeof node !== 'object') {
+      errors.push(`Node at index ${i} is invalid`);
+      return errors;
+    }
+
+    const nodeObj = node as Record<string, unknown>;
+    if (!nodeObj.config || typeof nodeObj.config !== 'object') {
+      errors.push(`Node at index ${i} missing config`);
+    } else {
+      const nodeConfig = nodeObj.config as Record<string, unknown>;
+      if (!nodeConfig.id || typeof nodeConfig.id !== 'string') {
+        errors.push(`Node at index ${i} missing config.id`);
+      }
+      if (!nodeConfig.type || typeof nodeConfig.type !== 'string') {
+        errors.push(`Node at index ${i} missing config.type`);
+      }
+      if (nodeConfig.join !== undefined) {
+        errors.push(...this.validateJoinConfig(nodeConfig.join, i));
+      }
+      if (nodeConfig.retry !== undefined) {
+        errors.push(...this.validateRetryPolicy(nodeConfig.retry, i));
+      }
+      if (nodeConfig.timeout !== undefined &&
+          (typeof nodeConfig.timeout !== 'number' || nodeConfig.timeout <= 0)) {
+        errors.push(`Node at index ${i} has invalid config.timeout (must be a positive number of milliseconds)`);
+      }
+      if (nodeConfig.executionMode !== undefined &&
+          nodeConfig.executionMode !== 'eachItem' && nodeConfig.executionMode !== 'allItems') {
+        errors.push(`Node at index ${i} has invalid config.executionMode (must be eachItem or allItems)`);
+      }
+    }
+
+    // 检查是否有 originalSettings 或 settings（向后兼容）
+    if (!nodeObj.originalSettings || typeof nodeObj.originalSettings !== 'object') {
+      if (!nodeObj.settings || typeof nodeObj.settings !== 'object') {
+        errors.push(`Node at index ${i} missing originalSettings (and settings for backward compatibility)`);
+      }
+    }
+
+    if (nodeObj.pinnedItems !== undefined && !this.isPinnedItems(nodeObj.pinnedItems)) {
+      errors.push(`Node at index ${i} has invalid pinnedItems (must map branch indexes to item arrays)`);
+    }
+
+    // 凭证只能按 id 引用，机密本身保存在凭证保险库中
+    const settings = (nodeObj.originalSettings ?? nodeObj.settings) as Record<string, unknown> | undefined;
+    if (settings && typeof settings === 'object' && settings.credentialId !== undefined &&
+        (typeof settings.credentialId !== 'string' || settings.credentialId === '')) {
+      errors.push(`Node at index ${i} has invalid credentialId (must be a credential id string)`);
+    }
+    return errors;
+  }
+
+  /**
+   * 验证单个连接
+   */
+  static validateConnection(connection: unknown, i: number): string[] {
+    const errors: string[] = [];
+    if (!connection || typeof connection !== 'object') {
+      errors.push(`Connection at index ${i} is invalid`);
+      return errors;
+    }
+
+    const connObj = connection as Record<string, unknown>;
+    if (!connObj.id || typeof connObj.id !== 'string') {
+      errors.push(`Connection at index ${i} missing id`);
+    }
+    if (!connObj.sourceNodeId || typeof connObj.sourceNodeId !== 'string') {
+      errors.push(`Connection at index ${i} missing sourceNodeId`);
+    }
+    if (!connObj.targetNodeId || typeof connObj.targetNodeId !== 'string') {
+      errors.push(`Connection at index ${i} missing targetNodeId`);
+    }
+    // branchIndex 可选，但如果提供则必须是 >= 0 的整数或错误分支 ERROR_BRANCH_INDEX
+    if (connObj.branchIndex !== undefined &&
+        (typeof connObj.branchIndex !== 'number' || !Number.isInteger(connObj.branchIndex) ||
+         (connObj.branchIndex < 0 && connObj.branchIndex !== ERROR_BRANCH_INDEX))) {
+      errors.push(`Connection at index ${i} has invalid branchIndex (must be an integer >= 0 or ${ERROR_BRANCH_INDEX} for the error branch)`);
+    }
+    if (connObj.maxIterations !== undefined &&
+        (typeof connObj.maxIterations !== 'number' || !Number.isInteger(connObj.maxIterations) || connObj.maxIterations < 0)) {
+      errors.push(`Connection at index ${i} has invalid maxIterations (must be an integer >= 0 if provided)`);
+    }
+    return errors;
+  }
+
+  /**
+   * 验证节点的汇合配置
+   */
+  private static validateJoinConfig(join: unknown, index: number): string[] {
+    const errors: string[] = [];
+    if (!join || typeof join !== 'object') {
+      errors.push(`Node at index ${index} has invalid config.join (must be an object)`);
+      return errors;
+    }
+
+    const joinObj = join as Record<string, unknown>;
+    if (joinObj.mode !== undefined && !['waitAll', 'waitAny', 'firstN'].includes(joinObj.mode as string)) {
+      errors.push(`Node at index ${index} has invalid join mode: ${joinObj.mode}`);
+    }
+    if (joinObj.mode === 'firstN' &&
+        (typeof joinObj.count !== 'number' || !Number.isInteger(joinObj.count) || joinObj.count < 1)) {
+      errors.push(`Node at index ${index} uses join mode firstN without a positive integer count`);
+    }
+    if (joinObj.merge !== undefined && !['namespaced', 'append', 'shallow'].includes(joinObj.merge as string)) {
+      errors.push(`Node at index ${index} has invalid join merge strategy: ${joinObj.merge}`);
+    }
+    return errors;
+  }
+
+  /**
+   * 固定的输出项是否为分支索引到输出项（对象）数组的映射
+   */
+  private static isPinnedItems(value: unknown): boolean {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+    return Object.entries(value).every(([index, items]) =>
+      /^-?\d+$/.test(index) && Array.isArray(items) && items.every(item => item && typeof item === 'object')
+    );
+  }
+
+  /**
+   * 验证节点的重试策略
+   */
+  private static validateRetryPolicy(retry: unknown, index: number): string[] {
+    const errors: string[] = [];
+    if (!retry || typeof retry !== 'object') {
+      errors.push(`Node at index ${index} has invalid config.retry (must be an object)`);
+      return errors;
+    }
+
+    const retryObj = retry as Record<string, unknown>;
+    if (typeof retryObj.maxAttempts !== 'number' || !Number.isInteger(retryObj.maxAttempts) || retryObj.maxAttempts < 1) {
+      errors.push(`Node at index ${index} has invalid retry maxAttempts (must be an integer >= 1)`);
+    }
+    if (retryObj.backoff !== undefined && !['fixed', 'exponential'].includes(retryObj.backoff as string)) {
+      errors.push(`Node at index ${index} has invalid retry backoff: ${retryObj.backoff}`);
+    }
+    for (const key of ['initialDelay', 'maxDelay', 'multiplier']) {
+      if (retryObj[key] !== undefined && (typeof retryObj[key] !== 'number' || (retryObj[key] as number) < 0)) {
+        errors.push(`Node at index ${index} has invalid retry ${key} (must be a non-negative number)`);
+      }
+    }
+    if (retryObj.retryOnErrors !== undefined &&
+        (!Array.isArray(retryObj.retryOnErrors) || retryObj.retryOnErrors.some(e => typeof e !== 'string'))) {
+      errors.push(`Node at index ${index} has invalid retry retryOnErrors (must be a string array)`);
+    }
+    if (retryObj.retryOnStatusCodes !== undefined &&
+        (!Array.isArray(retryObj.retryOnStatusCodes) || retryObj.retryOnStatusCodes.some(c => typeof c !== 'number'))) {
+      errors.push(`Node at index ${index} has invalid retry retryOnStatusCodes (must be a number array)`);
+    }
+    return errors;
+  }
+
   /**
    * 格式化输出 JSON（美化格式）
    */
@@ -290,6 +476,65 @@ export class WorkflowSerializer {
     }
   }
 
+  /**
+   * 为序列化工作流中的节点固定输出，返回新的工作流 JSON
+   * items 为按分支索引分组的输出项（如执行快照检查点中的 items），缺省时输出项由 data 还原
+   */
+  static pinNodeOutput(
+    serializedWorkflow: SerializedWorkflow,
+    nodeId: string,
+    data: unknown,
+    items?: Record<string, NodeItem[]>
+  ): SerializedWorkflow {
+    return {
+      ...serializedWorkflow,
+      nodes: serializedWorkflow.nodes.map(node => {
+        if (node.config.id !== nodeId) return node;
+        const pinned: SerializedNode = { ...node, pinnedData: this.deepClone(data) };
+        if (items) {
+          pinned.pinnedItems = this.deepClone(items);
+        } else {
+          delete pinned.pinnedItems;
+        }
+        return pinned;
+      })
+    };
+  }
+
+  /**
+   * 移除节点的固定输出，返回新的工作流 JSON
+   */
+  static unpinNodeOutput(serializedWorkflow: SerializedWorkflow, nodeId: string): SerializedWorkflow {
+    return {
+      ...serializedWorkflow,
+      nodes: serializedWorkflow.nodes.map(node => {
+        if (node.config.id !== nodeId) return node;
+        const unpinned = { ...node };
+        delete unpinned.pinnedData;
+        delete unpinned.pinnedItems;
+        return unpinned;
+      })
+    };
+  }
+
+  /**
+   * 将序列化配置中的执行相关字段写回节点配置
+   */
+  private static restoreNodeConfig(node: BaseNode, config: NodeConfig): void {
+    if (config.join) {
+      node.config.join = this.deepClone(config.join);
+    }
+    if (config.retry) {
+      node.config.retry = this.deepClone(config.retry);
+    }
+    if (config.timeout !== undefined) {
+      node.config.timeout = config.timeout;
+    }
+    if (config.executionMode !== undefined) {
+      node.config.executionMode = config.executionMode;
+    }
+  }
+
   /**
    * 深拷贝对象
    */
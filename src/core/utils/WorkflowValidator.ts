@@ -0,0 +1,419 @@
+import type { WorkflowConnection } from '../abstract/BaseWorkflow';
+import { WorkflowGraphUtils } from '../engine/WorkflowGraph';
+import { ExpressionUtils } from './ExpressionParser';
+import { SchemaUtils } from './SchemaUtils';
+import { NodePortUtils } from '../engine/NodePorts';
+import { WorkflowEnvironmentUtils } from '../engine/WorkflowEnvironment';
+import { WorkflowIOUtils } from '../engine/WorkflowIO';
+import { NodeRegistry, WorkflowSerializer, type SerializedWorkflow } from './WorkflowSerializer';
+
+// 诊断级别：error 表示运行会失败或结果不可预期，warning 表示很可能是配置疏漏
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+  | 'invalid-config'
+  | 'invalid-node'
+  | 'invalid-connection'
+  | 'duplicate-node-id'
+  | 'duplicate-connection-id'
+  | 'unknown-node-type'
+  | 'dangling-connection'
+  | 'unreachable-node'
+  | 'uncapped-cycle'
+  | 'missing-branch'
+  | 'unknown-node-reference'
+  | 'non-upstream-reference'
+  | 'invalid-settings'
+  | 'incompatible-connection';
+
+// 单条诊断
+export interface WorkflowDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  nodeId?: string;
+  connectionId?: string;
+  // 出问题的字段路径（如 settings.headers.Authorization、outputs.total）
+  path?: string;
+}
+
+// 条件节点的分支：false -> 0，true -> 1
+const CONDITION_BRANCHES: Array<[number, string]> = [[0, 'false'], [1, 'true']];
+
+/**
+ * 工作流静态校验
+ * 在 WorkflowSerializer.validate 的结构校验之上检查图与设置：可达性、环路上限、条件分支、
+ * 表达式引用与节点设置模式；结果为带节点 id 与级别的诊断列表，不会抛出异常
+ */
+export class WorkflowValidator {
+  static validate(input: SerializedWorkflow): WorkflowDiagnostic[] {
+    NodeRegistry.initializeBuiltinTypes();
+    const diagnostics: WorkflowDiagnostic[] = [];
+    // 导入的 JSON 可能缺少 config 或含有不完整的节点与连接：报告后跳过，其余检查只看结构完整的部分
+    const workflow = this.normalize(input, diagnostics);
+    const { nodes, connections } = workflow;
+
+    // 节点 id 与类型（重复 id 以第一次出现为准）
+    const nodeTypes = new Map<string, string>();
+    for (const node of nodes) {
+      const { id, type } = node.config;
+      if (nodeTypes.has(id)) {
+        diagnostics.push({
+          code: 'duplicate-node-id',
+          severity: 'error',
+          nodeId: id,
+          message: `Duplicate node id: ${id}`
+        });
+        continue;
+      }
+      nodeTypes.set(id, type);
+      if (!NodeRegistry.isRegistered(type)) {
+        diagnostics.push({
+          code: 'unknown-node-type',
+          severity: 'error',
+          nodeId: id,
+          message: `Node ${id} has unknown type: ${type}`
+        });
+      }
+    }
+
+    const valid = this.checkConnections(connections, nodeTypes, diagnostics);
+    const nodeIds = [...nodeTypes.keys()];
+    this.checkCycles(workflow, nodeIds, valid, diagnostics);
+    this.checkReachability(nodeTypes, valid, diagnostics);
+    this.checkConditionBranches(nodeTypes, valid, diagnostics);
+    this.checkReferences(workflow, nodeTypes, valid, diagnostics);
+    this.checkSettings(workflow, nodeTypes, diagnostics);
+    if (!diagnostics.some(d => d.code === 'duplicate-node-id' || d.code === 'unknown-node-type' || d.code.startsWith('invalid-'))) {
+      this.checkPorts(workflow, diagnostics);
+    }
+    return diagnostics;
+  }
+
+  /**
+   * 按 WorkflowSerializer 的结构校验报告 invalid-config / invalid-node / invalid-connection，
+   * 并去掉无法继续检查的部分：缺少 id 或类型的节点、缺少端点的连接、形状无效的环境与输出映射
+   */
+  private static normalize(input: SerializedWorkflow, diagnostics: WorkflowDiagnostic[]): SerializedWorkflow {
+    const workflow = (this.isRecord(input) ? input : {}) as Partial<SerializedWorkflow>;
+    const config: Record<string, unknown> = this.isRecord(workflow.config) ? { ...workflow.config } : {};
+    const configErrors = this.isRecord(workflow.config)
+      ? WorkflowSerializer.validateConfig(config)
+      : ['Workflow is missing config'];
+    for (const message of configErrors) {
+      diagnostics.push({ code: 'invalid-config', severity: 'error', message });
+    }
+    if (config.environments !== undefined && WorkflowEnvironmentUtils.validate(config.environments).length > 0) {
+      delete config.environments;
+    }
+    if (config.outputs !== undefined && WorkflowIOUtils.validateOutputs(config.outputs).length > 0) {
+      delete config.outputs;
+    }
+
+    if (!Array.isArray(workflow.nodes)) {
+      diagnostics.push({ code: 'invalid-node', severity: 'error', message: 'Missing or invalid nodes array' });
+    }
+    if (!Array.isArray(workflow.connections)) {
+      diagnostics.push({ code: 'invalid-connection', severity: 'error', message: 'Missing or invalid connections array' });
+    }
+
+    const nodes = (Array.isArray(workflow.nodes) ? workflow.nodes : []).filter((node, i) => {
+      const nodeConfig: unknown = this.isRecord(node) ? node.config : undefined;
+      const nodeId = this.isRecord(nodeConfig) && typeof nodeConfig.id === 'string' && nodeConfig.id ? nodeConfig.id : undefined;
+      for (const message of WorkflowSerializer.validateNode(node, i)) {
+        diagnostics.push({ code: 'invalid-node', severity: 'error', nodeId, message });
+      }
+      return nodeId !== undefined && this.isRecord(nodeConfig) && typeof nodeConfig.type === 'string' && nodeConfig.type !== '';
+    });
+
+    const connections = (Array.isArray(workflow.connections) ? workflow.connections : []).filter((connection, i) => {
+      const connectionId = this.isRecord(connection) && typeof connection.id === 'string' && connection.id ? connection.id : undefined;
+      for (const message of WorkflowSerializer.validateConnection(connection, i)) {
+        diagnostics.push({ code: 'invalid-connection', severity: 'error', connectionId, message });
+      }
+      return connectionId !== undefined && this.isRecord(connection) &&
+        typeof connection.sourceNodeId === 'string' && typeof connection.targetNodeId === 'string';
+    });
+
+    return { ...workflow, config, nodes, connections } as unknown as SerializedWorkflow;
+  }
+
+  // 是否存在 error 级别的诊断
+  static hasErrors(diagnostics: WorkflowDiagnostic[]): boolean {
+    return diagnostics.some(diagnostic => diagnostic.severity === 'error');
+  }
+
+  // 重复的连接 id 与指向不存在节点的连接；返回两端都存在的连接
+  private static checkConnections(
+    connections: WorkflowConnection[],
+    nodeTypes: Map<string, string>,
+    diagnostics: WorkflowDiagnostic[]
+  ): WorkflowConnection[] {
+    const ids = new Set<string>();
+    const valid: WorkflowConnection[] = [];
+    for (const connection of connections) {
+      if (ids.has(connection.id)) {
+        diagnostics.push({
+          code: 'duplicate-connection-id',
+          severity: 'error',
+          connectionId: connection.id,
+          message: `Duplicate connection id: ${connection.id}`
+        });
+      }
+      ids.add(connection.id);
+
+      const missing = [connection.sourceNodeId, connection.targetNodeId].filter(id => !nodeTypes.has(id));
+      if (missing.length > 0) {
+        diagnostics.push({
+          code: 'dangling-connection',
+          severity: 'error',
+          connectionId: connection.id,
+          nodeId: nodeTypes.has(connection.sourceNodeId) ? connection.sourceNodeId : undefined,
+          message: `Connection ${connection.id} references non-existent node: ${missing.join(', ')}`
+        });
+        continue;
+      }
+      valid.push(connection);
+    }
+    return valid;
+  }
+
+  // 回边与工作流都未设置 maxIterations 的环路（运行器会在运行前拒绝）
+  private static checkCycles(
+    workflow: SerializedWorkflow,
+    nodeIds: string[],
+    connections: WorkflowConnection[],
+    diagnostics: WorkflowDiagnostic[]
+  ): void {
+    for (const { connection, cycle } of WorkflowGraphUtils.findBackEdges(nodeIds, connections)) {
+      if ((connection.maxIterations ?? workflow.config.maxIterations) !== undefined) continue;
+      diagnostics.push({
+        code: 'uncapped-cycle',
+        severity: 'error',
+        nodeId: connection.targetNodeId,
+        connectionId: connection.id,
+        message: `Cycle ${cycle.join(' -> ')} has no iteration limit (set maxIterations on connection ${connection.id} or the workflow)`
+      });
+    }
+  }
+
+  /**
+   * 不可达节点：存在触发器节点时从触发器出发，否则从没有入边的节点出发；
+   * 只能经由其他无入口环路到达的节点同样不可达
+   */
+  private static checkReachability(
+    nodeTypes: Map<string, string>,
+    connections: WorkflowConnection[],
+    diagnostics: WorkflowDiagnostic[]
+  ): void {
+    const triggers = [...nodeTypes].filter(([, type]) => type.endsWith('-trigger')).map(([id]) => id);
+    const targets = new Set(connections.map(c => c.targetNodeId));
+    const entries = triggers.length > 0 ? triggers : [...nodeTypes.keys()].filter(id => !targets.has(id));
+
+    const reachable = this.collect(entries, connections, c => [c.sourceNodeId, c.targetNodeId]);
+    for (const nodeId of nodeTypes.keys()) {
+      if (reachable.has(nodeId)) continue;
+      diagnostics.push({
+        code: 'unreachable-node',
+        severity: 'warning',
+        nodeId,
+        message: triggers.length > 0
+          ? `Node ${nodeId} is not reachable from any trigger node`
+          : `Node ${nodeId} is not reachable from any entry node`
+      });
+    }
+  }
+
+  /**
+   * 条件节点应同时连接 true 与 false 分支：运行器把所选分支没有连接的结果兜底到分支 0，
+   * 因此缺少 true 分支时 true 的结果会走 false 分支，缺少 false 分支时 false 的结果结束该路径
+   */
+  private static checkConditionBranches(
+    nodeTypes: Map<string, string>,
+    connections: WorkflowConnection[],
+    diagnostics: WorkflowDiagnostic[]
+  ): void {
+    for (const [nodeId, type] of nodeTypes) {
+      if (type !== 'condition') continue;
+      const branches = new Set(
+        connections.filter(c => c.sourceNodeId === nodeId).map(c => c.branchIndex ?? 0)
+      );
+      for (const [branchIndex, label] of CONDITION_BRANCHES) {
+        if (branches.has(branchIndex)) continue;
+        diagnostics.push({
+          code: 'missing-branch',
+          severity: 'warning',
+          nodeId,
+          message: branchIndex === 0
+            ? `Condition node ${nodeId} has no ${label} branch (branchIndex ${branchIndex}); false results end the path`
+            : `Condition node ${nodeId} has no ${label} branch (branchIndex ${branchIndex}); true results fall back to the false branch (branchIndex 0)`
+        });
+      }
+    }
+  }
+
+  /**
+   * 表达式引用：{{$result.nodeId...}} 引用的节点必须存在，且应在本节点上游（否则运行时解析为空）
+   * 检查节点设置、环境对节点设置的覆盖与工作流输出映射
+   */
+  private static checkReferences(
+    workflow: SerializedWorkflow,
+    nodeTypes: Map<string, string>,
+    connections: WorkflowConnection[],
+    diagnostics: WorkflowDiagnostic[]
+  ): void {
+    const checkNode = (nodeId: string, value: unknown, basePath: string) => {
+      const upstream = this.collect([nodeId], connections, c => [c.targetNodeId, c.sourceNodeId], false);
+      for (const [path, text] of this.collectStrings(value, basePath)) {
+        for (const dependency of ExpressionUtils.getDependencies(text)) {
+          if (!nodeTypes.has(dependency)) {
+            diagnostics.push({
+              code: 'unknown-node-reference',
+              severity: 'error',
+              nodeId,
+              path,
+              message: `Node ${nodeId} references non-existent node ${dependency} in ${path}`
+            });
+          } else if (!upstream.has(dependency)) {
+            diagnostics.push({
+              code: 'non-upstream-reference',
+              severity: 'warning',
+              nodeId,
+              path,
+              message: `Node ${nodeId} references node ${dependency} in ${path}, which is not upstream`
+            });
+          }
+        }
+      }
+    };
+
+    const checked = new Set<string>();
+    for (const node of workflow.nodes ?? []) {
+      if (checked.has(node.config.id)) continue;
+      checked.add(node.config.id);
+      checkNode(node.config.id, node.originalSettings ?? node.settings, 'settings');
+    }
+
+    for (const environment of workflow.config.environments ?? []) {
+      for (const [nodeId, overrides] of Object.entries(environment.overrides ?? {})) {
+        const path = `environments.${environment.name}.overrides.${nodeId}`;
+        if (!nodeTypes.has(nodeId)) {
+          diagnostics.push({
+            code: 'unknown-node-reference',
+            severity: 'error',
+            path,
+            message: `Environment ${environment.name} overrides settings of non-existent node ${nodeId}`
+          });
+          continue;
+        }
+        checkNode(nodeId, overrides, path);
+      }
+    }
+
+    for (const [path, text] of this.collectStrings(workflow.config.outputs, 'outputs')) {
+      for (const dependency of ExpressionUtils.getDependencies(text)) {
+        if (nodeTypes.has(dependency)) continue;
+        diagnostics.push({
+          code: 'unknown-node-reference',
+          severity: 'error',
+          path,
+          message: `Workflow output ${path} references non-existent node ${dependency}`
+        });
+      }
+    }
+  }
+
+  // 节点设置不符合其类型注册的设置模式
+  private static checkSettings(
+    workflow: SerializedWorkflow,
+    nodeTypes: Map<string, string>,
+    diagnostics: WorkflowDiagnostic[]
+  ): void {
+    const checked = new Set<string>();
+    for (const node of workflow.nodes ?? []) {
+      const nodeId = node.config.id;
+      if (checked.has(nodeId)) continue;
+      checked.add(nodeId);
+
+      const schema = NodeRegistry.getSchemas(nodeTypes.get(nodeId) ?? '')?.settings;
+      if (!schema) continue;
+      for (const issue of SchemaUtils.check(schema, node.originalSettings ?? node.settings ?? {})) {
+        const path = issue.path ? `settings.${issue.path}` : 'settings';
+        diagnostics.push({
+          code: 'invalid-settings',
+          severity: 'error',
+          nodeId,
+          path,
+          message: `Node ${nodeId} has invalid ${path}: ${issue.message}`
+        });
+      }
+    }
+  }
+
+  // 源节点输出无法满足目标节点必需输入的连接（见 NodePortUtils.checkConnection）
+  private static checkPorts(workflow: SerializedWorkflow, diagnostics: WorkflowDiagnostic[]): void {
+    let instance;
+    try {
+      instance = WorkflowSerializer.fromJSON(workflow);
+    } catch {
+      return;
+    }
+    for (const [connectionId, problems] of NodePortUtils.findIncompatibleConnections(instance)) {
+      const connection = instance.connections.get(connectionId)!;
+      diagnostics.push({
+        code: 'incompatible-connection',
+        severity: 'warning',
+        nodeId: connection.targetNodeId,
+        connectionId,
+        message: `Connection ${connectionId} (${connection.sourceNodeId} -> ${connection.targetNodeId}): ${problems.join('; ')}`
+      });
+    }
+  }
+
+  /**
+   * 沿连接遍历可到达的节点；step 返回 [当前端, 下一端]
+   * includeStart 为 false 时起点本身只有在环路上才计入
+   */
+  private static collect(
+    start: string[],
+    connections: WorkflowConnection[],
+    step: (connection: WorkflowConnection) => [string, string],
+    includeStart = true
+  ): Set<string> {
+    const adjacency = new Map<string, string[]>();
+    for (const connection of connections) {
+      const [from, to] = step(connection);
+      const next = adjacency.get(from) || [];
+      next.push(to);
+      adjacency.set(from, next);
+    }
+
+    const visited = new Set<string>(includeStart ? start : []);
+    const queue = [...start];
+    while (queue.length > 0) {
+      const nodeId = queue.shift() as string;
+      for (const next of adjacency.get(nodeId) || []) {
+        if (visited.has(next)) continue;
+        visited.add(next);
+        queue.push(next);
+      }
+    }
+    return visited;
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  // 深度收集字符串值及其字段路径
+  private static collectStrings(value: unknown, path: string): Array<[string, string]> {
+    if (typeof value === 'string') return [[path, value]];
+    if (Array.isArray(value)) {
+      return value.flatMap((item, i) => this.collectStrings(item, `${path}.${i}`));
+    }
+    if (value && typeof value === 'object') {
+      return Object.entries(value).flatMap(([key, item]) => this.collectStrings(item, `${path}.${key}`));
+    }
+    return [];
+  }
+}
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WorkflowRunner } from '../src/core/engine/WorkflowRunner';
+import { WorkflowSerializer, type SerializedWorkflow } from '../src/core/utils/WorkflowSerializer';
+import { WorkflowValidator } from '../src/core/utils/WorkflowValidator';
+import example from '../src/core/examples/agent-workflow-example.json' with { type: 'json' };
+
+describe('agent workflow example', () => {
+  const realFetch = globalThis.fetch;
+  let requests: Array<{ url: string; method?: string; body: unknown }>;
+
+  // 记录发出的请求并返回空的 JSON 响应
+  beforeEach(() => {
+    requests = [];
+    globalThis.fetch = async (url, init) => {
+      requests.push({ url: String(url), method: init?.method, body: init?.body });
+      return new Response('{}', { headers: { 'content-type': 'application/json' } });
+    };
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  const run = (message: string) => new WorkflowRunner(WorkflowSerializer.fromJSON(example as SerializedWorkflow), {
+    trigger: { nodeId: 'chat-trigger', data: { message } }
+  }).run();
+
+  it('passes validation', () => {
+    assert.deepEqual(WorkflowValidator.validate(example as SerializedWorkflow), []);
+  });
+
+  it('sends the chat message as a JSON body, escaping quotes, backslashes and newlines', async () => {
+    const message = 'He said "hi" \\ then\nleft';
+    const result = await run(message);
+
+    assert.equal(result.status, 'completed');
+    assert.deepEqual(requests.map(request => [request.method, request.url]), [['POST', 'https://api.example.com/users']]);
+    assert.deepEqual(JSON.parse(String(requests[0].body)), { user: message });
+  });
+
+  it('routes replies mentioning a profile to the profile request', async () => {
+    const result = await run('Update my profile');
+
+    assert.equal(result.status, 'completed');
+    assert.deepEqual(requests.map(request => [request.method, request.url]), [['PUT', 'https://api.example.com/profile']]);
+    assert.deepEqual(JSON.parse(String(requests[0].body)), { profile: 'Update my profile' });
+  });
+});
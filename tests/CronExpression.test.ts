@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CronExpression, CronExpressionError } from '../src/core/engine/CronExpression';
+
+// 从 from 起连续取 count 次触发时间（ISO 字符串，便于对比）
+function nextTimes(expression: string, timezone: string, from: string, count: number): string[] {
+  const cron = CronExpression.parse(expression, timezone);
+  const times: string[] = [];
+  let after = Date.parse(from);
+  for (let i = 0; i < count; i++) {
+    const next = cron.next(after);
+    if (next === undefined) break;
+    times.push(new Date(next).toISOString());
+    after = next;
+  }
+  return times;
+}
+
+describe('CronExpression', () => {
+  it('returns the next matching time strictly after the given time', () => {
+    assert.deepEqual(nextTimes('*/15 9 * * *', 'UTC', '2026-01-01T09:15:00Z', 3), [
+      '2026-01-01T09:30:00.000Z',
+      '2026-01-01T09:45:00.000Z',
+      '2026-01-02T09:00:00.000Z'
+    ]);
+  });
+
+  it('matches wall time in the given timezone', () => {
+    // 上海为 UTC+8，无夏令时
+    assert.deepEqual(nextTimes('0 9 * * MON-FRI', 'Asia/Shanghai', '2026-01-02T02:00:00Z', 2), [
+      '2026-01-05T01:00:00.000Z',
+      '2026-01-06T01:00:00.000Z'
+    ]);
+  });
+
+  describe('daylight saving time (America/New_York)', () => {
+    it('keeps the wall time when the offset changes in spring', () => {
+      // 2026-03-08 02:00 EST 拨快到 03:00 EDT
+      assert.deepEqual(nextTimes('0 9 * * *', 'America/New_York', '2026-03-07T00:00:00Z', 2), [
+        '2026-03-07T14:00:00.000Z',
+        '2026-03-08T13:00:00.000Z'
+      ]);
+    });
+
+    it('skips a time that does not exist on the spring-forward day', () => {
+      assert.deepEqual(nextTimes('30 2 * * *', 'America/New_York', '2026-03-07T12:00:00Z', 2), [
+        '2026-03-09T06:30:00.000Z',
+        '2026-03-10T06:30:00.000Z'
+      ]);
+    });
+
+    it('fires a fixed hour once when the hour repeats in autumn', () => {
+      // 2026-11-01 02:00 EDT 回拨到 01:00 EST，01:30 出现两次
+      assert.deepEqual(nextTimes('30 1 * * *', 'America/New_York', '2026-10-31T12:00:00Z', 2), [
+        '2026-11-01T05:30:00.000Z',
+        '2026-11-02T06:30:00.000Z'
+      ]);
+    });
+
+    it('keeps firing every real hour through the repeated hour', () => {
+      assert.deepEqual(nextTimes('0 * * * *', 'America/New_York', '2026-11-01T04:30:00Z', 3), [
+        '2026-11-01T05:00:00.000Z',
+        '2026-11-01T06:00:00.000Z',
+        '2026-11-01T07:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('day of month and day of week', () => {
+    it('matches either field when both are restricted', () => {
+      // 2026-01-02 为星期五，13 日为星期二
+      assert.deepEqual(nextTimes('0 0 13 * FRI', 'UTC', '2026-01-01T00:00:00Z', 4), [
+        '2026-01-02T00:00:00.000Z',
+        '2026-01-09T00:00:00.000Z',
+        '2026-01-13T00:00:00.000Z',
+        '2026-01-16T00:00:00.000Z'
+      ]);
+    });
+
+    it('uses only the restricted field when the other is a wildcard', () => {
+      assert.deepEqual(nextTimes('0 0 13 * *', 'UTC', '2026-01-01T00:00:00Z', 2), [
+        '2026-01-13T00:00:00.000Z',
+        '2026-02-13T00:00:00.000Z'
+      ]);
+      assert.deepEqual(nextTimes('0 0 * * FRI', 'UTC', '2026-01-01T00:00:00Z', 2), [
+        '2026-01-02T00:00:00.000Z',
+        '2026-01-09T00:00:00.000Z'
+      ]);
+    });
+
+    it('treats 7 as Sunday', () => {
+      assert.deepEqual(nextTimes('0 0 * * 7', 'UTC', '2026-01-01T00:00:00Z', 1), ['2026-01-04T00:00:00.000Z']);
+    });
+  });
+
+  it('returns undefined for an expression that never matches', () => {
+    assert.equal(CronExpression.parse('0 0 30 2 *', 'UTC').next(0), undefined);
+  });
+
+  it('rejects invalid expressions and timezones', () => {
+    assert.throws(() => CronExpression.parse('0 0 * *', 'UTC'), CronExpressionError);
+    assert.throws(() => CronExpression.parse('60 * * * *', 'UTC'), CronExpressionError);
+    assert.throws(() => CronExpression.parse('0 0 * * *', 'Mars/Olympus'), CronExpressionError);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ExecutionSnapshot } from '../src/core/engine/ExecutionSnapshot';
+import { WorkflowRunner } from '../src/core/engine/WorkflowRunner';
+import { WorkflowSerializer, type SerializedWorkflow } from '../src/core/utils/WorkflowSerializer';
+
+// HTTP 请求节点的输出逐项交给下游代码节点，代码节点返回每项的 id 与二进制文件名
+function createWorkflow(httpSettings: Record<string, unknown>): SerializedWorkflow {
+  return {
+    config: { id: 'wf', name: 'Pinned' },
+    nodes: [
+      {
+        config: { id: 'http', name: 'Fetch', type: 'http-request' },
+        originalSettings: { url: 'https://api.example.com/orders', method: 'GET', timeout: 5000, ...httpSettings }
+      },
+      {
+        config: { id: 'each', name: 'Each', type: 'code', executionMode: 'eachItem' },
+        originalSettings: { code: 'return { id: inputs.id ?? null, file: item.binary?.data?.fileName ?? null };' }
+      }
+    ],
+    connections: [{ id: 'c1', sourceNodeId: 'http', targetNodeId: 'each' }]
+  };
+}
+
+// 运行工作流，返回 HTTP 节点被调用的次数、下游节点的输出与执行快照
+async function run(workflow: SerializedWorkflow, response: () => Response) {
+  let requests = 0;
+  globalThis.fetch = async () => {
+    requests++;
+    return response();
+  };
+  const result = await new WorkflowRunner(WorkflowSerializer.fromJSON(workflow)).run();
+  assert.equal(result.status, 'completed');
+  return { requests, output: result.results.get('each'), snapshot: result.snapshot! };
+}
+
+// 把一次真实运行中 HTTP 节点的输出（data 与检查点中的输出项）固定到工作流
+function pinHttpOutput(workflow: SerializedWorkflow, snapshot: ExecutionSnapshot) {
+  const checkpoint = snapshot.checkpoints.http;
+  const pinned = WorkflowSerializer.pinNodeOutput(workflow, 'http', checkpoint.data, checkpoint.items);
+  // 经过一次 JSON 往返，与保存到文件后再加载一致
+  return JSON.parse(JSON.stringify(pinned)) as SerializedWorkflow;
+}
+
+const unreachable = () => {
+  throw new Error('pinned node must not send requests');
+};
+
+describe('pinned node output', () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('replays every output item of a node that split its response', async () => {
+    const workflow = createWorkflow({ itemsPath: 'orders' });
+    const live = await run(workflow, () => Response.json({ orders: [{ id: 1 }, { id: 2 }, { id: 3 }] }));
+    assert.equal(live.requests, 1);
+
+    const pinned = pinHttpOutput(workflow, live.snapshot);
+    assert.equal(pinned.nodes[0].pinnedItems?.['0']?.length, 3);
+
+    const replay = await run(pinned, unreachable);
+    assert.equal(replay.requests, 0);
+    assert.deepEqual(replay.output, live.output);
+    assert.deepEqual(replay.snapshot.checkpoints.each.items, live.snapshot.checkpoints.each.items);
+    assert.equal(Object.values(replay.snapshot.checkpoints.each.items!).flat().length, 3);
+  });
+
+  it('replays the binary part of output items', async () => {
+    const workflow = createWorkflow({ responseFormat: 'binary' });
+    const live = await run(workflow, () => new Response(new Uint8Array([1, 2, 3]), {
+      headers: { 'content-type': 'image/png', 'content-disposition': 'attachment; filename="chart.png"' }
+    }));
+
+    const replay = await run(pinHttpOutput(workflow, live.snapshot), unreachable);
+    assert.equal(replay.requests, 0);
+    assert.deepEqual(replay.output, live.output);
+    assert.deepEqual(replay.snapshot.checkpoints.http.items, live.snapshot.checkpoints.http.items);
+    assert.equal(replay.snapshot.checkpoints.http.items!['0'][0].binary?.data.fileName, 'chart.png');
+  });
+
+  it('derives the output item from data when no items were pinned', async () => {
+    const workflow = WorkflowSerializer.pinNodeOutput(createWorkflow({}), 'http', { id: 7 });
+    const replay = await run(workflow, unreachable);
+    assert.equal(replay.requests, 0);
+    assert.deepEqual(replay.snapshot.checkpoints.http.data, { id: 7 });
+    assert.equal(replay.snapshot.checkpoints.http.items, undefined);
+  });
+
+  it('drops pinned items when the output is pinned again without them or unpinned', () => {
+    const withItems = WorkflowSerializer.pinNodeOutput(createWorkflow({}), 'http', {}, { 0: [{ json: { id: 1 } }] });
+    assert.equal(WorkflowSerializer.pinNodeOutput(withItems, 'http', {}).nodes[0].pinnedItems, undefined);
+    const unpinned = WorkflowSerializer.unpinNodeOutput(withItems, 'http').nodes[0];
+    assert.equal('pinnedData' in unpinned || 'pinnedItems' in unpinned, false);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExecutionEventBus } from '../src/core/engine/ExecutionEvents';
+import { WebhookRouter } from '../src/core/engine/WebhookRouter';
+import { WorkflowSerializer } from '../src/core/utils/WorkflowSerializer';
+
+// 收到请求后用请求体中的 name 回复的工作流
+function createEchoWorkflow() {
+  return WorkflowSerializer.fromJSON({
+    config: { id: 'echo', name: 'Echo' },
+    nodes: [
+      {
+        config: { id: 'hook', name: 'Hook', type: 'webhook-trigger' },
+        originalSettings: { path: 'echo', responseMode: 'respondNode' }
+      },
+      {
+        config: { id: 'reply', name: 'Reply', type: 'webhook-respond' },
+        originalSettings: { body: '{{$input.body.name}}' }
+      }
+    ],
+    connections: [{ id: 'e1', sourceNodeId: 'hook', targetNodeId: 'reply' }]
+  });
+}
+
+const request = (name: string) => ({ method: 'POST', path: 'echo', headers: {}, query: {}, body: { name } });
+
+describe('WebhookRouter', () => {
+  it('keeps concurrent runs of the same workflow apart', async () => {
+    const events = new ExecutionEventBus();
+    const settings: unknown[] = [];
+    events.on('nodeFinished', event => {
+      if (event.nodeId === 'reply') settings.push(event.settings);
+    });
+    const router = new WebhookRouter();
+    const workflow = createEchoWorkflow();
+    router.register(workflow, { events });
+
+    const names = ['alice', 'bob', 'carol'];
+    const responses = await Promise.all(names.map(name => router.handle(request(name))));
+    await router.idle();
+
+    assert.deepEqual(responses.map(response => response.body), names);
+    assert.deepEqual(
+      settings.map(value => (value as Record<string, unknown>).body).sort(),
+      names
+    );
+    // 注册的工作流本身不被运行修改
+    assert.deepEqual(workflow.nodes.get('reply')!.settings, { body: '{{$input.body.name}}' });
+  });
+});
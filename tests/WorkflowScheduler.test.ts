@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ManualClock,
+  MemorySchedulerStateStore,
+  WorkflowScheduler,
+  type ScheduledRun
+} from '../src/core/engine/WorkflowScheduler';
+import type { TimerTriggerSettings } from '../src/core/nodes/TimerTriggerNode';
+import { WorkflowSerializer } from '../src/core/utils/WorkflowSerializer';
+
+const INTERVAL = 1000;
+
+// 只含一个定时触发节点的工作流
+function createWorkflow(settings: TimerTriggerSettings) {
+  return WorkflowSerializer.fromJSON({
+    config: { id: 'wf', name: 'Scheduled' },
+    nodes: [{ config: { id: 'timer', name: 'Timer', type: 'timer-trigger' }, originalSettings: settings }],
+    connections: []
+  });
+}
+
+// 上次触发于 lastRun、当前时间为 now 的调度器（模拟调度器停止期间错过了若干计划）
+async function startScheduler(settings: TimerTriggerSettings, lastRun: number, now: number) {
+  const clock = new ManualClock(now);
+  const store = new MemorySchedulerStateStore();
+  await store.save({ 'wf:timer': lastRun });
+  const runs: ScheduledRun[] = [];
+  const scheduler = new WorkflowScheduler({
+    clock,
+    store,
+    onRunFinished: (run, outcome) => {
+      assert.equal(outcome.result?.status, 'completed');
+      runs.push(run);
+    }
+  });
+  scheduler.register(createWorkflow(settings));
+  await scheduler.start();
+  await scheduler.idle();
+  return { clock, scheduler, runs };
+}
+
+const scheduledTimes = (runs: ScheduledRun[]) => runs.map(run => [run.scheduledTime, run.catchUp]);
+
+describe('WorkflowScheduler', () => {
+  it('fires interval triggers as the clock advances', async () => {
+    const { clock, scheduler, runs } = await startScheduler({ interval: INTERVAL }, 0, 0);
+    assert.deepEqual(runs, []);
+
+    for (let i = 0; i < 3; i++) {
+      clock.advance(INTERVAL);
+      await scheduler.idle();
+    }
+    assert.deepEqual(scheduledTimes(runs), [[1000, false], [2000, false], [3000, false]]);
+    assert.deepEqual(runs.map(run => run.firedAt), [1000, 2000, 3000]);
+    await scheduler.stop();
+  });
+
+  describe('catch-up of schedules missed while stopped', () => {
+    // 上次触发于 0，5500 时启动：1000 到 5000 的五次计划被错过
+    it('skip drops missed schedules', async () => {
+      const { clock, scheduler, runs } = await startScheduler({ interval: INTERVAL, catchUp: 'skip' }, 0, 5500);
+      assert.deepEqual(runs, []);
+      assert.equal(scheduler.getScheduledTriggers()[0].nextRunAt, 6000);
+
+      clock.advance(500);
+      await scheduler.idle();
+      assert.deepEqual(scheduledTimes(runs), [[6000, false]]);
+      await scheduler.stop();
+    });
+
+    it('once runs the latest missed schedule once', async () => {
+      const { scheduler, runs } = await startScheduler({ interval: INTERVAL, catchUp: 'once' }, 0, 5500);
+      assert.deepEqual(scheduledTimes(runs), [[5000, true]]);
+      assert.equal(runs[0].firedAt, 5500);
+      await scheduler.stop();
+    });
+
+    it('all runs the most recent missed schedules in order, up to maxCatchUp', async () => {
+      const { scheduler, runs } = await startScheduler({ interval: INTERVAL, catchUp: 'all', maxCatchUp: 3 }, 0, 5500);
+      assert.deepEqual(scheduledTimes(runs), [[3000, true], [4000, true], [5000, true]]);
+      await scheduler.stop();
+    });
+  });
+
+  it('catches up schedules that came due while the workflow was still running', async () => {
+    const { clock, scheduler, runs } = await startScheduler({ interval: INTERVAL, catchUp: 'all' }, 0, 0);
+
+    // 一次推进跨过三个计划：第一个立即运行，其余在运行期间到期，待运行结束后依次补跑
+    clock.advance(3 * INTERVAL);
+    await scheduler.idle();
+    assert.deepEqual(scheduledTimes(runs), [[1000, false], [2000, true], [3000, true]]);
+    await scheduler.stop();
+  });
+
+  it('stops scanning missed schedules after a bounded number of steps', async () => {
+    // 停止期间错过两千万次计划：只检查前 10000 次（MAX_DUE_SCAN），下一次计划从当前时间重新计算
+    const now = 20_000_000 * INTERVAL;
+    const started = Date.now();
+    const { scheduler, runs } = await startScheduler({ interval: INTERVAL, catchUp: 'all', maxCatchUp: 3 }, 0, now);
+
+    assert.ok(Date.now() - started < 5000);
+    assert.equal(scheduler.getScheduledTriggers()[0].nextRunAt, now + INTERVAL);
+    assert.deepEqual(runs.map(run => run.scheduledTime), [9_998_000, 9_999_000, 10_000_000]);
+    await scheduler.stop();
+  });
+
+  it('fires cron triggers in their timezone', async () => {
+    const { clock, scheduler, runs } = await startScheduler(
+      { cron: '0 9 * * *', timezone: 'America/New_York' },
+      Date.parse('2026-03-07T14:00:00Z'),
+      Date.parse('2026-03-07T15:00:00Z')
+    );
+    assert.equal(scheduler.getScheduledTriggers()[0].nextRunAt, Date.parse('2026-03-08T13:00:00Z'));
+
+    clock.advance(Date.parse('2026-03-08T13:00:00Z') - clock.now());
+    await scheduler.idle();
+    assert.deepEqual(runs.map(run => new Date(run.scheduledTime).toISOString()), ['2026-03-08T13:00:00.000Z']);
+    await scheduler.stop();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WorkflowValidator, type DiagnosticCode } from '../src/core/utils/WorkflowValidator';
+import type { SerializedWorkflow } from '../src/core/utils/WorkflowSerializer';
+
+// 只含一个代码节点的工作流，config 与节点可覆盖
+function createWorkflow(config: Record<string, unknown> = {}, nodeConfig: Record<string, unknown> = {}): unknown {
+  return {
+    config: { id: 'wf', name: 'Workflow', ...config },
+    nodes: [{ config: { id: 'code', name: 'Code', type: 'code', ...nodeConfig }, originalSettings: { code: 'return {}' } }],
+    connections: []
+  };
+}
+
+// 诊断的 code 列表（不会抛出异常）
+function codes(workflow: unknown): DiagnosticCode[] {
+  return WorkflowValidator.validate(workflow as SerializedWorkflow).map(diagnostic => diagnostic.code);
+}
+
+describe('WorkflowValidator with malformed input', () => {
+  it('reports nothing for a well-formed workflow', () => {
+    assert.deepEqual(codes(createWorkflow()), []);
+  });
+
+  it('reports a workflow that is not an object or has no config, nodes or connections', () => {
+    for (const workflow of [null, 5, 'x', {}, { config: 5, nodes: {}, connections: 'x' }]) {
+      assert.deepEqual(codes(workflow), ['invalid-config', 'invalid-node', 'invalid-connection']);
+    }
+  });
+
+  it('reports malformed environments without checking their overrides', () => {
+    for (const environments of [{}, [null], [{ name: 'prod' }], [{ name: 'prod', values: {}, overrides: 5 }]]) {
+      assert.deepEqual(codes(createWorkflow({ environments })), ['invalid-config']);
+    }
+    assert.deepEqual(codes(createWorkflow({ environments: [], defaultEnvironment: 'prod' })), ['invalid-config']);
+  });
+
+  it('reports malformed inputs and outputs', () => {
+    assert.deepEqual(codes(createWorkflow({ inputs: {} })), ['invalid-config']);
+    assert.deepEqual(codes(createWorkflow({ inputs: [{ name: 'n', type: 'date' }] })), ['invalid-config']);
+    assert.deepEqual(codes(createWorkflow({ outputs: 'x' })), ['invalid-config']);
+    assert.deepEqual(codes(createWorkflow({ outputs: { result: 5 } })), ['invalid-config']);
+  });
+
+  it('reports malformed node join, retry and timeout with the node id', () => {
+    for (const nodeConfig of [{ join: 5 }, { join: { mode: 'firstN' } }, { retry: 'x' }, { retry: {} }, { timeout: -1 }]) {
+      const diagnostics = WorkflowValidator.validate(createWorkflow({}, nodeConfig) as SerializedWorkflow);
+      assert.deepEqual(diagnostics.map(d => [d.code, d.nodeId]), [['invalid-node', 'code']]);
+    }
+  });
+
+  it('reports malformed pinned items with the node id', () => {
+    for (const pinnedItems of [5, [], { 0: {} }, { x: [] }, { 0: [null] }]) {
+      const workflow = createWorkflow() as { nodes: Record<string, unknown>[] };
+      workflow.nodes[0].pinnedItems = pinnedItems;
+      const diagnostics = WorkflowValidator.validate(workflow as unknown as SerializedWorkflow);
+      assert.deepEqual(diagnostics.map(d => [d.code, d.nodeId]), [['invalid-node', 'code']]);
+    }
+  });
+
+  it('skips nodes and connections that cannot be checked', () => {
+    const workflow = {
+      config: { id: 'wf', name: 'Workflow' },
+      nodes: [null, { settings: {} }, { config: { id: 'code', name: 'Code', type: 'code' }, originalSettings: { code: 'return {}' } }],
+      connections: [null, { id: 'c1' }, { id: 'c2', sourceNodeId: 'code', targetNodeId: 'missing', branchIndex: 'x' }]
+    };
+    assert.deepEqual(WorkflowValidator.validate(workflow as unknown as SerializedWorkflow).map(d => d.message), [
+      'Node at index 0 is invalid',
+      'Node at index 1 missing config',
+      'Connection at index 0 is invalid',
+      'Connection at index 1 missing sourceNodeId',
+      'Connection at index 1 missing targetNodeId',
+      'Connection at index 2 has invalid branchIndex (must be an integer >= 0 or -1 for the error branch)',
+      'Connection c2 references non-existent node: missing'
+    ]);
+  });
+});
+
+describe('WorkflowValidator condition branches', () => {
+  // 条件节点只连接了 branchIndex 的分支
+  const withBranch = (branchIndex: number) => ({
+    config: { id: 'wf', name: 'Workflow' },
+    nodes: [
+      { config: { id: 'check', name: 'Check', type: 'condition' }, originalSettings: { conditionType: 'simple' } },
+      { config: { id: 'next', name: 'Next', type: 'code' }, originalSettings: { code: 'return {}' } }
+    ],
+    connections: [{ id: 'c1', sourceNodeId: 'check', targetNodeId: 'next', branchIndex }]
+  });
+
+  it('warns that true results fall back to the false branch when the true branch is missing', () => {
+    const [diagnostic] = WorkflowValidator.validate(withBranch(0) as SerializedWorkflow);
+    assert.equal(diagnostic.code, 'missing-branch');
+    assert.match(diagnostic.message, /true results fall back to the false branch/);
+  });
+
+  it('warns that false results end the path when the false branch is missing', () => {
+    const [diagnostic] = WorkflowValidator.validate(withBranch(1) as SerializedWorkflow);
+    assert.equal(diagnostic.code, 'missing-branch');
+    assert.match(diagnostic.message, /false results end the path/);
+  });
+});